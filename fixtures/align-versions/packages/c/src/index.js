@@ -0,0 +1,4 @@
+import React from 'react';
+import { noop } from 'lodash';
+
+export const c = [React, noop];
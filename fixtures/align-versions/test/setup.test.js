@@ -0,0 +1,3 @@
+import { noop } from 'lodash';
+
+noop();
@@ -0,0 +1,4 @@
+import { formatDate } from 'utils/format';
+import { debounce } from 'lodash';
+
+export const render = debounce(() => formatDate(new Date()), 100);
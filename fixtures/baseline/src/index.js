@@ -0,0 +1,5 @@
+import chalk from 'chalk';
+
+export function paint(value) {
+  return chalk.green(value);
+}
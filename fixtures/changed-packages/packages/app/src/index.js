@@ -0,0 +1,3 @@
+import { ui } from '@fixture/ui';
+
+ui();
@@ -0,0 +1,3 @@
+import { identity } from 'lodash';
+
+export const core = identity;
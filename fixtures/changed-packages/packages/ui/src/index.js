@@ -0,0 +1,3 @@
+import { core } from '@fixture/core';
+
+export const ui = () => core('ui');
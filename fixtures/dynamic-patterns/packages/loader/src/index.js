@@ -0,0 +1,15 @@
+export async function loadPlugin(name) {
+    return import(`@org/plugin-${name}`);
+}
+
+export function loadHelper(fn) {
+    return require('lodash/' + fn);
+}
+
+export async function loadTheme(theme) {
+    return import(`@acme/theme-${theme}/index.js`);
+}
+
+export async function loadLocale(locale) {
+    return import(`./locales/${locale}.js`);
+}
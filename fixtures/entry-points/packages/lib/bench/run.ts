@@ -0,0 +1,6 @@
+import { Bench } from 'tinybench';
+import { title } from '../src/index';
+
+const bench = new Bench();
+bench.add('title', () => title('Hello World'));
+await bench.run();
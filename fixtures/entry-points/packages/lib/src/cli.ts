@@ -0,0 +1,4 @@
+import { Command } from 'commander';
+import { title } from './index';
+
+new Command().argument('<value>').action((value: string) => console.log(title(value))).parse();
@@ -0,0 +1,3 @@
+import { slugify } from './util.js';
+
+export const title = (value: string): string => slugify(value);
@@ -0,0 +1,3 @@
+import groupBy from 'lodash/groupBy';
+
+export const group = <T>(items: T[], key: (item: T) => string) => groupBy(items, key);
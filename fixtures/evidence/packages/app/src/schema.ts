@@ -0,0 +1,4 @@
+import { z } from 'zod';
+import type { ZodType } from 'zod';
+
+export const user: ZodType = z.object({ name: z.string() });
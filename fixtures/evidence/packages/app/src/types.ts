@@ -0,0 +1,3 @@
+import type { Dictionary } from 'lodash';
+
+export type Lookup = Dictionary<string>;
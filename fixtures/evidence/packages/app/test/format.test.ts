@@ -0,0 +1,8 @@
+import { describe, expect, it } from 'vitest';
+import { format } from '../src/format';
+
+describe('format', () => {
+    it('capitalizes', () => expect(format('a')).toBe('A'));
+});
+
+export const debounce = () => require('lodash/debounce');
@@ -0,0 +1,3 @@
+import { camelCase } from 'lodash';
+
+export const a = camelCase('a');
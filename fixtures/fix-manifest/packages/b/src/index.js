@@ -0,0 +1,3 @@
+import { kebabCase } from 'lodash';
+
+export const b = kebabCase('b');
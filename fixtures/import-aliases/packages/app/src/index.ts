@@ -0,0 +1,6 @@
+import { Button } from '@/components/Button';
+import { slugify } from '~/utils';
+import { query } from '#internal/query';
+import db from '#db';
+
+export const app = () => [Button, slugify, query, db];
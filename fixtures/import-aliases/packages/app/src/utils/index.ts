@@ -0,0 +1 @@
+export const slugify = (value: string) => value.toLowerCase();
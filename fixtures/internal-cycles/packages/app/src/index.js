@@ -0,0 +1,3 @@
+import { render } from '@fixture/core';
+
+export const start = () => render('app');
@@ -0,0 +1,3 @@
+import { mount } from '@fixture/testkit';
+
+mount();
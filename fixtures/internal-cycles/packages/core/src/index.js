@@ -0,0 +1,3 @@
+import { format } from '@fixture/utils';
+
+export const render = (value) => format(value);
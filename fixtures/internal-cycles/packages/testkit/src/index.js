@@ -0,0 +1,3 @@
+import { start } from '@fixture/app';
+
+export const mount = () => start();
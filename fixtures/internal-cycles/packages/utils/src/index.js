@@ -0,0 +1,4 @@
+import { render } from '@fixture/core';
+
+export const format = (value) => String(value);
+export const renderAll = (values) => values.map(render);
@@ -0,0 +1 @@
+export const transport = { target: require.resolve('pino') };
@@ -0,0 +1,6 @@
+import express = require('express');
+import type Koa = require('koa');
+
+export function createServer(legacy?: Koa) {
+    return legacy ?? express();
+}
@@ -0,0 +1,3 @@
+/// <reference types="vite/client" />
+/// <reference types="node" />
+/// <reference path="./globals.d.ts" />
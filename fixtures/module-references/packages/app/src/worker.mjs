@@ -0,0 +1 @@
+export const dispatcherUrl = import.meta.resolve('undici');
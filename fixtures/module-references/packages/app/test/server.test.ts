@@ -0,0 +1,8 @@
+import { describe, it, vi } from 'vitest';
+
+vi.mock('nanoid', () => ({ nanoid: () => 'id' }));
+jest.mock('virtual-config', () => ({}), { virtual: true });
+
+describe('server', () => {
+    it('starts', () => {});
+});
@@ -0,0 +1 @@
+export const admin = true;
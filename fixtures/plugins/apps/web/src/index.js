@@ -0,0 +1,4 @@
+import '@org/telemetry';
+import { debounce } from 'lodash';
+
+export const onResize = debounce(() => {}, 100);
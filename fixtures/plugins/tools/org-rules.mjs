@@ -0,0 +1,23 @@
+import path from 'node:path';
+
+const isApp = (rootDir, pkg) => path.relative(rootDir, pkg.location).startsWith('apps');
+
+export default {
+  name: 'org',
+  rules: {
+    'no-lodash-in-browser': { description: 'Browser apps must not import lodash' },
+    'require-telemetry': { description: 'Apps must depend on @org/telemetry', severity: 'warn' },
+  },
+  check({ rootDir, packages, prodImports }) {
+    const issues = [];
+    for (const pkg of packages.filter((pkg) => isApp(rootDir, pkg))) {
+      if (prodImports.get(pkg.name)?.has('lodash')) {
+        issues.push({ rule: 'no-lodash-in-browser', package: pkg.name, dependency: 'lodash', detail: 'use lodash-es or native APIs' });
+      }
+      if (!pkg.dependencies['@org/telemetry']) {
+        issues.push({ rule: 'require-telemetry', package: pkg.name, dependency: '@org/telemetry' });
+      }
+    }
+    return issues;
+  },
+};
@@ -0,0 +1,5 @@
+import React from 'react';
+import { noop } from 'lodash';
+import { Button } from '@fixture/ui';
+
+export const web = [React, noop, Button];
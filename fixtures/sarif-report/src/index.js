@@ -0,0 +1,10 @@
+// chalk is imported but never declared
+import chalk from 'chalk';
+
+export function paint(value) {
+  return chalk.green(value);
+}
+
+export async function load(name) {
+  return import(name);
+}
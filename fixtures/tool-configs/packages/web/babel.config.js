@@ -0,0 +1,6 @@
+const presets = [['@babel/preset-env', { targets: 'defaults' }], '@babel/typescript'];
+
+module.exports = {
+    presets,
+    plugins: ['macros'],
+};
@@ -0,0 +1,6 @@
+module.exports = () => ({
+    plugins: {
+        autoprefixer: {},
+        'postcss-preset-env': { stage: 3 },
+    },
+});
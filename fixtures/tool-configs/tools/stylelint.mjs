@@ -0,0 +1,11 @@
+export default {
+  name: 'stylelint',
+  configDetectors: [
+    {
+      name: 'stylelint',
+      files: ['.stylelintrc.json'],
+      packageJsonKey: 'stylelint',
+      detect: (config) => [].concat(config.extends ?? [], config.plugins ?? []),
+    },
+  ],
+};
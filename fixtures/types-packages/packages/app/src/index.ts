@@ -0,0 +1,6 @@
+import { transformSync } from '@babel/core';
+import { createElement } from 'react';
+import { readFileSync } from 'node:fs';
+
+export const compile = (file: string) => transformSync(readFileSync(file, 'utf-8'));
+export const view = () => createElement('div');
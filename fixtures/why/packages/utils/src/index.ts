@@ -0,0 +1,5 @@
+import { chunk } from 'lodash';
+import type { Dictionary } from 'lodash';
+
+export const pages = (items: string[]): string[][] => chunk(items, 10);
+export type Index = Dictionary<string>;
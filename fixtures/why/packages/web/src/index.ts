@@ -0,0 +1,3 @@
+import { pages } from '@fixture/utils';
+
+export const render = (items: string[]): number => pages(items).length;
@@ -0,0 +1,4 @@
+import { render } from '../src/index';
+import range from 'lodash/range';
+
+console.assert(render(range(25).map(String)) === 3);
@@ -0,0 +1,3 @@
+import { $ } from 'zx';
+
+await $`docker push api`;
@@ -0,0 +1,4 @@
+import { execa } from 'execa';
+import { program } from '../src/setup';
+
+program.action(() => execa('echo', ['hi'])).parse();
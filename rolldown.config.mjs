@@ -1,7 +1,12 @@
 import { defineConfig } from 'rolldown';
 
 export default defineConfig({
-    input: './src/index.ts',
+    input: {
+        // Library entry (package.json main/types)
+        index: './src/index.ts',
+        // CLI entry (package.json bin)
+        cli: './src/cli.ts',
+    },
     platform: 'node',
     // Exclude npm packages from the bundle
     // Users will install them via npm when installing this package
@@ -19,9 +24,11 @@ export default defineConfig({
     },
     output: {
         dir: './dist',
-        entryFileNames: 'index.js',
+        entryFileNames: '[name].js',
+        // Modules shared by the entries; kept apart so a chunk never takes an entry's name
+        chunkFileNames: 'chunks/shared-[hash].js',
         minify: true,
         // Add shebang for CLI execution via npx
-        banner: '#!/usr/bin/env node',
+        banner: (chunk) => (chunk.name === 'cli' ? '#!/usr/bin/env node' : ''),
     },
 });
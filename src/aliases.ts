@@ -0,0 +1,225 @@
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { createRequire } from 'module';
+import { PackageInfo } from './monorepo';
+
+// Extensions TypeScript tries when resolving a `paths` target
+const RESOLVE_EXTENSIONS = ['', '.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts', '.json'];
+
+interface PathMapping {
+    pattern: string;
+    targets: string[];
+}
+
+/**
+ * Resolves import aliases of one workspace: `compilerOptions.paths` and `baseUrl` from its tsconfig.json
+ * (or jsconfig.json, following `extends`) and subpath imports from the package.json `imports` field.
+ */
+export class AliasResolver {
+    private pkg: PackageInfo;
+    private workspaces: PackageInfo[];
+    private paths: PathMapping[] = [];
+    private pathsBaseDir: string;
+    /** Directory non-relative specifiers are looked up in before node_modules, when `baseUrl` is set */
+    private baseUrl: string | null = null;
+    private imports: Record<string, unknown> = {};
+    private cache = new Map<string, string[] | undefined>();
+
+    constructor(pkg: PackageInfo, workspaces: PackageInfo[]) {
+        this.pkg = pkg;
+        this.workspaces = workspaces;
+        this.pathsBaseDir = pkg.location;
+        this.loadCompilerPaths();
+        this.loadSubpathImports();
+    }
+
+    /**
+     * Packages an aliased specifier refers to: `[]` for local files, the owning workspace for files
+     * inside another workspace, or the packages named by `imports` targets.
+     * Returns undefined when the specifier is not an alias.
+     */
+    resolve(specifier: string): string[] | undefined {
+        if (!this.cache.has(specifier)) {
+            const resolved = specifier.startsWith('#') ? this.resolveSubpathImport(specifier) : this.resolvePaths(specifier);
+            this.cache.set(specifier, resolved);
+        }
+        return this.cache.get(specifier);
+    }
+
+    /** `paths` mappings first, then files under `baseUrl`; otherwise the specifier is a package. */
+    private resolvePaths(specifier: string): string[] | undefined {
+        const match = this.matchPattern(this.paths.map((mapping) => mapping.pattern), specifier);
+        if (match) {
+            const mapping = this.paths.find((candidate) => candidate.pattern === match.pattern)!;
+            const candidates = mapping.targets.map((target) => path.resolve(this.pathsBaseDir, target.replace('*', match.captured)));
+            const existing = candidates.find(fileExists);
+            if (existing) return this.packagesForFile(existing);
+            // A catch-all `*` mapping falls back to node_modules resolution when no file matches
+            if (match.pattern !== '*') return this.packagesForFile(candidates[0]);
+        }
+
+        const underBaseUrl = this.baseUrl ? path.resolve(this.baseUrl, specifier) : null;
+        return underBaseUrl && fileExists(underBaseUrl) ? this.packagesForFile(underBaseUrl) : undefined;
+    }
+
+    private resolveSubpathImport(specifier: string): string[] | undefined {
+        const match = this.matchPattern(Object.keys(this.imports), specifier);
+        if (!match) return undefined;
+
+        const packages = new Set<string>();
+        for (const target of leafTargets(this.imports[match.pattern])) {
+            if (target.startsWith('./')) {
+                this.packagesForFile(path.resolve(this.pkg.location, target.replace('*', match.captured)))
+                    .forEach((name) => packages.add(name));
+            } else {
+                // Bare targets re-export an installed package (`"#dep": "dep-polyfill"`)
+                const parts = target.split('/');
+                packages.add(target.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0]);
+            }
+        }
+        return [...packages];
+    }
+
+    /** Exact keys win, then the wildcard pattern with the longest prefix (TypeScript and Node agree on this). */
+    private matchPattern(patterns: string[], specifier: string): { pattern: string; captured: string } | undefined {
+        if (patterns.includes(specifier)) {
+            return { pattern: specifier, captured: '' };
+        }
+        let best: { pattern: string; captured: string } | undefined;
+        for (const pattern of patterns) {
+            const star = pattern.indexOf('*');
+            if (star === -1) continue;
+            const prefix = pattern.slice(0, star);
+            const suffix = pattern.slice(star + 1);
+            if (specifier.length < prefix.length + suffix.length) continue;
+            if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) continue;
+            if (best && best.pattern.indexOf('*') >= star) continue;
+            best = { pattern, captured: specifier.slice(prefix.length, specifier.length - suffix.length) };
+        }
+        return best;
+    }
+
+    /** `[]` when the file belongs to this workspace (or none), otherwise the package that owns it. */
+    private packagesForFile(file: string): string[] {
+        const segments = file.split(path.sep);
+        const nodeModules = segments.lastIndexOf('node_modules');
+        if (nodeModules !== -1) {
+            const name = segments[nodeModules + 1]?.startsWith('@')
+                ? segments.slice(nodeModules + 1, nodeModules + 3).join('/')
+                : segments[nodeModules + 1];
+            return name ? [name] : [];
+        }
+
+        let owner: PackageInfo | undefined;
+        for (const workspace of this.workspaces) {
+            const relative = path.relative(workspace.location, file);
+            if (relative.startsWith('..') || path.isAbsolute(relative)) continue;
+            if (!owner || workspace.location.length > owner.location.length) {
+                owner = workspace;
+            }
+        }
+        return owner && owner.name !== this.pkg.name ? [owner.name] : [];
+    }
+
+    private loadCompilerPaths(): void {
+        const configPath = ['tsconfig.json', 'jsconfig.json']
+            .map((name) => path.join(this.pkg.location, name))
+            .find((candidate) => fs.existsSync(candidate));
+        if (!configPath) return;
+
+        const options = readCompilerOptions(configPath, new Set());
+        if (options.baseUrl) {
+            this.baseUrl = path.resolve(options.baseUrl.configDir, options.baseUrl.value);
+        }
+        if (!options.paths) return;
+        this.paths = Object.entries(options.paths.value)
+            .filter(([, targets]) => Array.isArray(targets))
+            .map(([pattern, targets]) => ({ pattern, targets }));
+        // `paths` are relative to `baseUrl` when set, otherwise to the config that declares them
+        this.pathsBaseDir = this.baseUrl ?? options.paths.configDir;
+    }
+
+    private loadSubpathImports(): void {
+        try {
+            const manifest = JSON.parse(fs.readFileSync(path.join(this.pkg.location, 'package.json'), 'utf-8'));
+            if (manifest.imports && typeof manifest.imports === 'object') {
+                this.imports = manifest.imports;
+            }
+        } catch {
+            // Unreadable manifests are reported during workspace discovery
+        }
+    }
+}
+
+interface InheritedOption<T> {
+    value: T;
+    /** Directory of the config file that set the option */
+    configDir: string;
+}
+
+interface CompilerPathOptions {
+    paths?: InheritedOption<Record<string, string[]>>;
+    baseUrl?: InheritedOption<string>;
+}
+
+/** Read `paths` and `baseUrl`, letting each config override the ones it extends. */
+function readCompilerOptions(configPath: string, seen: Set<string>): CompilerPathOptions {
+    if (seen.has(configPath)) return {};
+    seen.add(configPath);
+
+    const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (!config) return {};
+
+    const configDir = path.dirname(configPath);
+    const extendsList: string[] = typeof config.extends === 'string' ? [config.extends] : Array.isArray(config.extends) ? config.extends : [];
+    let options: CompilerPathOptions = {};
+    for (const extended of extendsList) {
+        const extendedPath = resolveExtendedConfig(configPath, extended);
+        if (extendedPath) {
+            options = { ...options, ...readCompilerOptions(extendedPath, seen) };
+        }
+    }
+
+    const compilerOptions = config.compilerOptions || {};
+    if (compilerOptions.paths && typeof compilerOptions.paths === 'object') {
+        options.paths = { value: compilerOptions.paths, configDir };
+    }
+    if (typeof compilerOptions.baseUrl === 'string') {
+        options.baseUrl = { value: compilerOptions.baseUrl, configDir };
+    }
+    return options;
+}
+
+function resolveExtendedConfig(fromConfig: string, specifier: string): string | undefined {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+        const resolved = path.resolve(path.dirname(fromConfig), specifier);
+        return [resolved, `${resolved}.json`].find((candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+    }
+    // Shared configs from packages, e.g. "@tsconfig/node20/tsconfig.json" or "@acme/tsconfig"
+    const require = createRequire(fromConfig);
+    for (const candidate of [specifier, `${specifier}.json`, `${specifier}/tsconfig.json`]) {
+        try {
+            return require.resolve(candidate);
+        } catch {
+            // Try the next form
+        }
+    }
+    return undefined;
+}
+
+/** Whether a module path resolves to a file, trying TypeScript's extensions and `index` files. */
+function fileExists(candidate: string): boolean {
+    return RESOLVE_EXTENSIONS.some((ext) =>
+        (fs.existsSync(candidate + ext) && fs.statSync(candidate + ext).isFile()) ||
+        fs.existsSync(path.join(candidate, `index${ext || '.ts'}`))
+    );
+}
+
+/** Every target string of an `imports` entry, across nested condition objects and fallback arrays. */
+function leafTargets(value: unknown): string[] {
+    if (typeof value === 'string') return [value];
+    if (Array.isArray(value)) return value.flatMap(leafTargets);
+    if (value && typeof value === 'object') return Object.values(value).flatMap(leafTargets);
+    return [];
+}
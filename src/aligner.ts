@@ -0,0 +1,119 @@
+import semver from 'semver';
+import { AlignStrategy } from './config';
+import { MismatchResult } from './consistency';
+import { PackageInfo } from './monorepo';
+
+export const ALIGN_STRATEGIES: AlignStrategy[] = ['highest', 'most-common', 'root', 'pinned'];
+
+/** Range chosen for one mismatched dependency, or the reason none was chosen. */
+export interface AlignmentTarget {
+    dependency: string;
+    version: string | null;
+    reason?: string;
+    /**
+     * False when untouched peerDependencies ranges, or packages left out of the check, will keep the mismatch alive.
+     */
+    resolves: boolean;
+    /** Packages with a different range that are not rewritten (`skipPackages`, outside --since/--filter) */
+    excluded?: string[];
+}
+
+/** Target ranges handed to `ManifestFixer.plan`. */
+export interface Alignment {
+    targets: Map<string, string>;
+    includePeers: boolean;
+}
+
+export class VersionAligner {
+    private packages: Map<string, PackageInfo>;
+    private rootPkg?: PackageInfo;
+    private pinned: Record<string, string>;
+    private includePeers: boolean;
+    private excluded: Set<string>;
+
+    /** @param excluded Packages whose manifests are never rewritten */
+    constructor(rootDir: string, packages: PackageInfo[], pinned: Record<string, string>, includePeers: boolean, excluded: Set<string> = new Set()) {
+        this.packages = new Map(packages.map((pkg) => [pkg.name, pkg]));
+        this.rootPkg = packages.find((pkg) => pkg.location === rootDir);
+        this.pinned = pinned;
+        this.includePeers = includePeers;
+        this.excluded = excluded;
+    }
+
+    resolve(mismatches: MismatchResult[], strategy: AlignStrategy): AlignmentTarget[] {
+        return mismatches.map((mismatch) => {
+            const pinned = this.pinned[mismatch.dependency];
+            const result = pinned ? { version: pinned } : this.pick(mismatch, strategy);
+            if (!result.version) {
+                return { dependency: mismatch.dependency, version: null, reason: result.reason, resolves: false };
+            }
+            const excluded = mismatch.versions
+                .filter((v) => v.version !== result.version)
+                .flatMap((v) => v.packages)
+                .filter((name) => this.excluded.has(name));
+            return {
+                dependency: mismatch.dependency,
+                version: result.version,
+                resolves: excluded.length === 0 && this.resolves(mismatch, result.version),
+                ...(excluded.length > 0 ? { excluded: [...new Set(excluded)].sort() } : {}),
+            };
+        });
+    }
+
+    toAlignment(targets: AlignmentTarget[]): Alignment {
+        const map = new Map<string, string>();
+        for (const target of targets) {
+            if (target.version) map.set(target.dependency, target.version);
+        }
+        return { targets: map, includePeers: this.includePeers };
+    }
+
+    private pick(mismatch: MismatchResult, strategy: AlignStrategy): { version: string | null; reason?: string } {
+        switch (strategy) {
+            case 'pinned':
+                return { version: null, reason: 'no pinned range in config' };
+            case 'root': {
+                const root = this.rootPkg;
+                const version = root
+                    ? root.dependencies[mismatch.dependency] ?? root.devDependencies[mismatch.dependency]
+                    : undefined;
+                return version ? { version } : { version: null, reason: 'not declared in the root package.json' };
+            }
+            case 'most-common': {
+                // Ties fall back to the highest of the most common ranges
+                const max = Math.max(...mismatch.versions.map((v) => v.packages.length));
+                const candidates = mismatch.versions.filter((v) => v.packages.length === max).map((v) => v.version);
+                return { version: highest(candidates) ?? candidates[0] };
+            }
+            case 'highest': {
+                const version = highest(mismatch.versions.map((v) => v.version));
+                return version ? { version } : { version: null, reason: 'no valid semver ranges' };
+            }
+        }
+    }
+
+    /**
+     * ConsistencyChecker lets a peer range shadow the dependencies/devDependencies range,
+     * so the mismatch only goes away if every shadowing peer range is aligned too.
+     * Catalog references are never rewritten, so a differing catalog entry also keeps it alive.
+     */
+    private resolves(mismatch: MismatchResult, version: string): boolean {
+        return mismatch.versions.every((v) => v.version === version || v.packages.every((name) => {
+            const pkg = this.packages.get(name);
+            if (pkg && Object.values(pkg.catalogReferences).some((refs) => refs?.[mismatch.dependency])) return false;
+            return this.includePeers || pkg?.peerDependencies[mismatch.dependency] === undefined;
+        }));
+    }
+}
+
+/** The range with the highest minimum version; invalid ranges are ignored. */
+function highest(ranges: string[]): string | null {
+    let best: { range: string; min: semver.SemVer } | null = null;
+    for (const range of ranges) {
+        const min = semver.validRange(range) ? semver.minVersion(range) : null;
+        if (min && (!best || semver.gt(min, best.min))) {
+            best = { range, min };
+        }
+    }
+    return best ? best.range : null;
+}
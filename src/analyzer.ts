@@ -1,9 +1,25 @@
 import path from 'path';
 import { PackageInfo } from './monorepo';
-import { Scanner } from './scanner';
-import { Parser } from './parser';
+import { FileRules, Scanner } from './scanner';
+import { ParseResult, Parser } from './parser';
+import { AliasResolver } from './aliases';
+import { ScriptAnalyzer } from './scripts';
+import { TOOL_CONFIG_DETECTORS, ToolConfigAnalyzer, ToolConfigDetector } from './tool-configs';
+import { EntryPointResolver } from './entry-points';
 import module from 'module';
 
+export interface ImportUsage {
+    file: string;
+    line: number;
+    specifier: string;
+    isTypeOnly: boolean;
+    isDev: boolean;
+    /** Why the usage counts as dev or prod, e.g. `test file`, `type-only import` or `"build" script` */
+    reason: string;
+    /** Why the file itself is dev or prod: the matching `Scanner` rule, or the script/tool config it came from */
+    fileReason: string;
+}
+
 export interface AnalysisResult {
     package: PackageInfo;
     unused: string[];
@@ -17,51 +33,115 @@ export interface AnalysisResult {
         file: string;
         line: number;
         expression: string;
+        /**
+         * Declared dependencies a template-literal or concatenated specifier could load; empty when its
+         * static prefix names a package but matches none. Absent when the specifier has no package prefix.
+         */
+        candidates?: string[];
     }[];
     prodImports: Set<string>;
     devImports: Set<string>;
+    /** Every place a package was referenced, keyed by package name */
+    usages: Map<string, ImportUsage[]>;
+}
+
+export interface AnalyzeOptions {
+    ignorePatterns?: string[];
+    ignoreDependencies?: string[];
+    /**
+     * Classify files by reachability from the manifest's entry points instead of by file name alone;
+     * packages without entry points keep the file name rules
+     */
+    entryPoints?: boolean;
+    /** Configured dev/prod file globs */
+    files?: FileRules;
 }
 
+// Virtual modules provided by a framework package; `null` marks framework aliases for local files
+const VIRTUAL_MODULES: [RegExp, string | null][] = [
+    [/^astro:/, 'astro'],
+    [/^\$(app|env|service-worker)(\/|$)/, '@sveltejs/kit'],
+    [/^\$lib(\/|$)/, null],
+];
+
 export class Analyzer {
     private scanner: Scanner;
     private parser: Parser;
     private builtins: Set<string>;
+    private scripts: ScriptAnalyzer;
+    private toolConfigs: ToolConfigAnalyzer;
+    private entryPoints: EntryPointResolver;
+    private workspaces: PackageInfo[];
 
-    constructor() {
+    /**
+     * @param workspaces Every workspace package, so aliases pointing into one are attributed to it
+     * @param detectors Tool config detectors (built-in ones plus those contributed by plugins)
+     */
+    constructor(workspaces: PackageInfo[] = [], detectors: ToolConfigDetector[] = TOOL_CONFIG_DETECTORS) {
         this.scanner = new Scanner();
         this.parser = new Parser();
         this.builtins = new Set(module.builtinModules);
+        this.scripts = new ScriptAnalyzer(workspaces);
+        this.toolConfigs = new ToolConfigAnalyzer(detectors);
+        this.entryPoints = new EntryPointResolver();
+        this.workspaces = workspaces;
     }
 
-    async analyze(pkg: PackageInfo, ignorePatterns: string[] = [], ignoreDependencies: string[] = []): Promise<AnalysisResult> {
-        const scanResults = await this.scanner.scan(pkg.location, ignorePatterns);
+    async analyze(pkg: PackageInfo, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+        const ignoreDependencies = options.ignoreDependencies ?? [];
+        let scanResults = await this.scanner.scan(pkg.location, options.ignorePatterns, options.files);
+        const parsed = new Map<string, ParseResult>();
+        const parse = (file: string): ParseResult => {
+            if (!parsed.has(file)) {
+                parsed.set(file, this.parser.parse(file));
+            }
+            return parsed.get(file)!;
+        };
+
+        const reachable = options.entryPoints ? this.entryPoints.reachable(pkg, scanResults.map((result) => result.file), parse) : null;
+        if (reachable) {
+            // Only files the entry points load are prod; everything else is dev, keeping its file name reason
+            scanResults = scanResults.map(({ file, isDev, reason }) => {
+                const entry = reachable.get(file);
+                if (entry === undefined) {
+                    return { file, isDev: true, reason: isDev ? reason : 'not reachable from entry points' };
+                }
+                const entryFile = path.relative(pkg.location, file).split(path.sep).join('/') === entry;
+                return { file, isDev: false, reason: entryFile ? 'entry point' : `reachable from ${entry}` };
+            });
+        }
 
         const prodImports = new Set<string>();
         const devImports = new Set<string>();
         const dynamicCandidates: AnalysisResult['dynamicCandidates'] = [];
+        const usages: AnalysisResult['usages'] = new Map();
+        const aliases = new AliasResolver(pkg, this.workspaces);
+        const declaredNames = Object.keys({ ...pkg.dependencies, ...pkg.devDependencies, ...pkg.peerDependencies, ...pkg.optionalDependencies });
 
-        for (const { file, isDev } of scanResults) {
-            const parsedImports = this.parser.parse(file);
+        for (const { file, isDev, reason } of scanResults) {
+            const parsedImports = parse(file);
 
             for (const candidate of parsedImports.dynamicCandidates) {
+                const candidates = this.matchDynamicPattern(candidate.prefix ?? '', candidate.suffix ?? '', declaredNames);
                 dynamicCandidates.push({
                     file,
                     line: candidate.line,
                     expression: candidate.expression,
+                    candidates,
                 });
+                // Every dependency the pattern could load counts as used, like a plain import
+                for (const packageName of candidates ?? []) {
+                    (isDev ? devImports : prodImports).add(packageName);
+                    if (!usages.has(packageName)) {
+                        usages.set(packageName, []);
+                    }
+                    usages.get(packageName)!.push({ file, line: candidate.line, specifier: candidate.expression, isTypeOnly: false, isDev, reason, fileReason: reason });
+                }
             }
 
             // Runtime (value) imports
             for (const imp of parsedImports.valueImports) {
-                if (imp.startsWith('.')) continue; // Relative import
-                if (path.isAbsolute(imp)) continue; // Absolute path (rare in imports)
-
-                if (this.isRuntimeBuiltinImportSpecifier(imp)) continue;
-
-                const normalizedImport = this.normalizeImportSpecifier(imp);
-
-                const packageName = this.getPackageName(normalizedImport);
-                if (packageName && !this.builtins.has(packageName)) {
+                for (const packageName of this.resolvePackages(imp, aliases)) {
                     if (isDev) {
                         devImports.add(packageName);
                     } else {
@@ -72,20 +152,94 @@ export class Analyzer {
 
             // Type-only imports are treated as dev-time
             for (const imp of parsedImports.typeOnlyImports) {
-                if (imp.startsWith('.')) continue;
-                if (path.isAbsolute(imp)) continue;
-
-                if (this.isRuntimeBuiltinImportSpecifier(imp)) continue;
-
-                const normalizedImport = this.normalizeImportSpecifier(imp);
-                const packageName = this.getPackageName(normalizedImport);
-                if (packageName && !this.builtins.has(packageName)) {
+                for (const packageName of this.resolvePackages(imp, aliases)) {
                     // If already counted as prod import, keep it there
                     if (!prodImports.has(packageName)) {
                         devImports.add(packageName);
                     }
                 }
             }
+
+            // Triple-slash type references are type-only, like `import type`
+            for (const reference of parsedImports.typeReferences) {
+                const packageName = this.resolveTypeReference(reference.specifier, pkg);
+                if (!packageName) continue;
+                if (!prodImports.has(packageName)) {
+                    devImports.add(packageName);
+                }
+                if (!usages.has(packageName)) {
+                    usages.set(packageName, []);
+                }
+                usages.get(packageName)!.push({
+                    file,
+                    line: reference.line,
+                    specifier: reference.specifier,
+                    isTypeOnly: true,
+                    isDev,
+                    reason: isDev ? reason : 'type reference',
+                    fileReason: reason,
+                });
+            }
+
+            for (const reference of parsedImports.references) {
+                for (const packageName of this.resolvePackages(reference.specifier, aliases)) {
+                    if (!usages.has(packageName)) {
+                        usages.set(packageName, []);
+                    }
+                    usages.get(packageName)!.push({
+                        file,
+                        line: reference.line,
+                        specifier: reference.specifier,
+                        isTypeOnly: reference.isTypeOnly,
+                        isDev,
+                        reason: reference.isTypeOnly && !isDev ? 'type-only import' : reason,
+                        fileReason: reason,
+                    });
+                }
+            }
+        }
+
+        // Binaries run from package.json scripts (tsc, vitest, rimraf, …) are dev-time usage, including
+        // scripts of nested workspaces running binaries this workspace declares
+        for (const usage of [...this.scripts.analyze(pkg), ...this.scripts.inherited(pkg)]) {
+            if (!prodImports.has(usage.dependency)) {
+                devImports.add(usage.dependency);
+            }
+            if (!usages.has(usage.dependency)) {
+                usages.set(usage.dependency, []);
+            }
+            const scriptPath = path.relative(pkg.location, usage.file).split(path.sep).join('/');
+            const scriptReason = scriptPath === 'package.json' ? `"${usage.script}" script` : `"${usage.script}" script in ${scriptPath}`;
+            usages.get(usage.dependency)!.push({
+                file: usage.file,
+                line: usage.line,
+                specifier: usage.binary,
+                isTypeOnly: false,
+                isDev: true,
+                reason: scriptReason,
+                fileReason: scriptReason,
+            });
+        }
+
+        // Packages named in tool configs (ESLint plugins, Babel presets, …) are dev-time usage
+        for (const reference of this.toolConfigs.analyze(pkg)) {
+            for (const packageName of this.resolvePackages(reference.specifier, aliases)) {
+                if (!prodImports.has(packageName)) {
+                    devImports.add(packageName);
+                }
+                if (!usages.has(packageName)) {
+                    usages.set(packageName, []);
+                }
+                usages.get(packageName)!.push({
+                    file: reference.file,
+                    line: reference.line,
+                    specifier: reference.specifier,
+                    isTypeOnly: false,
+                    isDev: true,
+                    reason: `${reference.tool} config`,
+                    fileReason: `${reference.tool} config`,
+                });
+            }
         }
 
         const deps = pkg.dependencies || {};
@@ -155,9 +309,74 @@ export class Analyzer {
             dynamicCandidates,
             prodImports,
             devImports,
+            usages,
         };
     }
 
+    /**
+     * Packages an import specifier refers to. Aliases (tsconfig `paths`, package.json `imports`)
+     * that resolve to local files yield none, like relative imports.
+     */
+    private resolvePackages(importPath: string, aliases: AliasResolver): string[] {
+        const aliased = aliases.resolve(importPath);
+        if (aliased) {
+            return aliased.filter((packageName) => !this.builtins.has(this.normalizeImportSpecifier(packageName)));
+        }
+        const packageName = this.resolveExternalPackage(importPath);
+        return packageName ? [packageName] : [];
+    }
+
+    /**
+     * Declared dependencies that `prefix + <anything> + suffix` could resolve to. The dynamic part is either
+     * inside the package name (`@org/plugin-${name}`) or in a subpath (`lodash/${fn}`).
+     * Returns undefined when the prefix is not the start of a package name (relative paths, no prefix).
+     */
+    private matchDynamicPattern(prefix: string, suffix: string, declared: string[]): string[] | undefined {
+        if (!prefix || !this.resolveExternalPackage(prefix)) return undefined;
+        // Static text after the dynamic part that still belongs to the package name
+        const nameSuffix = suffix.split('/')[0];
+        return declared.filter((dependency) =>
+            prefix === dependency ||
+            prefix.startsWith(`${dependency}/`) ||
+            (dependency.startsWith(prefix) && dependency.length >= prefix.length + nameSuffix.length && dependency.endsWith(nameSuffix))
+        ).sort();
+    }
+
+    /**
+     * Package behind `/// <reference types="name" />`. TypeScript looks for `name` itself and for
+     * `@types/name`; the declared one wins, and `node` always means `@types/node`.
+     */
+    private resolveTypeReference(name: string, pkg: PackageInfo): string | null {
+        const packageName = this.resolveExternalPackage(name);
+        if (!packageName) return null;
+        const typesPackage = `@types/${packageName.replace(/^@/, '').replace('/', '__')}`;
+        const declared = { ...pkg.dependencies, ...pkg.devDependencies, ...pkg.peerDependencies, ...pkg.optionalDependencies };
+        if (packageName === 'node' || (declared[typesPackage] && !declared[packageName])) {
+            return typesPackage;
+        }
+        return packageName;
+    }
+
+    /**
+     * Map an import specifier to the external package it refers to.
+     * Returns null for relative/absolute paths and runtime built-ins.
+     */
+    private resolveExternalPackage(importPath: string): string | null {
+        if (importPath.startsWith('.')) return null; // Relative import
+        if (importPath.startsWith('#')) return null; // Subpath import without a matching `imports` entry
+        if (path.isAbsolute(importPath)) return null; // Absolute path (rare in imports)
+
+        if (this.isRuntimeBuiltinImportSpecifier(importPath)) return null;
+
+        const virtualModule = VIRTUAL_MODULES.find(([pattern]) => pattern.test(importPath));
+        if (virtualModule) return virtualModule[1];
+
+        const normalizedImport = this.normalizeImportSpecifier(importPath);
+        const packageName = this.getPackageName(normalizedImport);
+        if (!packageName || this.builtins.has(packageName)) return null;
+        return packageName;
+    }
+
     private getPackageName(importPath: string): string | null {
         if (importPath.startsWith('@')) {
             const parts = importPath.split('/');
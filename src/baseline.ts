@@ -0,0 +1,89 @@
+import fs from 'fs';
+import { IssueType } from './report';
+
+export interface BaselineEntry {
+    package: string;
+    type: IssueType;
+    dependency: string;
+}
+
+export interface BaselineFile {
+    version: 1;
+    issues: BaselineEntry[];
+}
+
+export class Baseline {
+    private entries = new Map<string, BaselineEntry>();
+    private matched = new Set<string>();
+    private suppressed = 0;
+
+    constructor(entries: BaselineEntry[] = []) {
+        for (const entry of entries) {
+            this.entries.set(Baseline.key(entry), entry);
+        }
+    }
+
+    /**
+     * Load a baseline written by `--write-baseline`.
+     * Throws when the file is missing or malformed so CI does not silently pass.
+     */
+    static read(filePath: string): Baseline {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        const json = JSON.parse(content) as Partial<BaselineFile>;
+        if (!json || !Array.isArray(json.issues)) {
+            throw new Error(`${filePath} is not a monodep baseline (missing "issues" array)`);
+        }
+        return new Baseline(json.issues);
+    }
+
+    /**
+     * Write a baseline for the given issues. Entries are keyed by
+     * package + type + dependency (never file/line) and sorted so the file stays stable.
+     * Entries of an existing file for which `keep` returns true are carried over, e.g. those of
+     * packages outside a --since/--filter selection; throws when that file is malformed.
+     */
+    static write(filePath: string, issues: BaselineEntry[], keep?: (entry: BaselineEntry) => boolean): number {
+        const kept = keep && fs.existsSync(filePath) ? [...Baseline.read(filePath).entries.values()].filter(keep) : [];
+        const unique = new Map<string, BaselineEntry>();
+        for (const issue of [...kept, ...issues]) {
+            const entry = { package: issue.package, type: issue.type, dependency: issue.dependency };
+            unique.set(Baseline.key(entry), entry);
+        }
+
+        const sorted = [...unique.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([, entry]) => entry);
+        const file: BaselineFile = { version: 1, issues: sorted };
+        fs.writeFileSync(filePath, JSON.stringify(file, null, 2) + '\n', 'utf-8');
+        return sorted.length;
+    }
+
+    private static key(entry: BaselineEntry): string {
+        return `${entry.package}\u0000${entry.type}\u0000${entry.dependency}`;
+    }
+
+    /** Returns true (and records the match) when the issue is already in the baseline. */
+    matches(entry: BaselineEntry): boolean {
+        const key = Baseline.key(entry);
+        if (!this.entries.has(key)) {
+            return false;
+        }
+        this.matched.add(key);
+        this.suppressed++;
+        return true;
+    }
+
+    get suppressedCount(): number {
+        return this.suppressed;
+    }
+
+    /**
+     * Baseline entries that no longer reproduce.
+     * @param checked Whether the entry's issue was looked for; entries that were not checked are never stale
+     */
+    stale(checked: (entry: BaselineEntry) => boolean = () => true): BaselineEntry[] {
+        return [...this.entries.entries()]
+            .filter(([key, entry]) => !this.matched.has(key) && checked(entry))
+            .map(([, entry]) => entry);
+    }
+}
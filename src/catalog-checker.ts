@@ -0,0 +1,54 @@
+import { Catalogs, CATALOG_PROTOCOL, DependencyField, PackageInfo } from './monorepo';
+
+// Peer ranges describe what consumers must provide, so they are not required to use the catalog
+const CHECKED_FIELDS: DependencyField[] = ['dependencies', 'devDependencies', 'optionalDependencies'];
+
+export interface CatalogIssue {
+    packageName: string;
+    dependency: string;
+    /** Range declared directly in the workspace */
+    version: string;
+    /** Catalog reference the workspace should use instead (`catalog:` or `catalog:<name>`) */
+    reference: string;
+    catalogVersion: string;
+    detail: string;
+}
+
+export class CatalogChecker {
+    /**
+     * Find dependencies declared with a plain range even though a catalog has an entry for them.
+     * The default catalog is preferred over named catalogs when suggesting a reference.
+     */
+    check(packages: PackageInfo[], catalogs: Catalogs): CatalogIssue[] {
+        const issues: CatalogIssue[] = [];
+        const catalogNames = Object.keys(catalogs).sort((a, b) => (a === 'default' ? -1 : b === 'default' ? 1 : a.localeCompare(b)));
+        if (catalogNames.length === 0) {
+            return issues;
+        }
+
+        for (const pkg of packages) {
+            for (const field of CHECKED_FIELDS) {
+                for (const [dep, version] of Object.entries(pkg[field])) {
+                    if (pkg.catalogReferences[field]?.[dep]) continue;
+                    if (version.startsWith('workspace:') || version.startsWith('file:') || version.startsWith(CATALOG_PROTOCOL)) continue;
+
+                    const catalogName = catalogNames.find((name) => catalogs[name][dep] !== undefined);
+                    if (!catalogName) continue;
+
+                    const reference = catalogName === 'default' ? CATALOG_PROTOCOL : `${CATALOG_PROTOCOL}${catalogName}`;
+                    const catalogVersion = catalogs[catalogName][dep];
+                    issues.push({
+                        packageName: pkg.name,
+                        dependency: dep,
+                        version,
+                        reference,
+                        catalogVersion,
+                        detail: `Uses "${version}" instead of "${reference}" (${catalogVersion})`,
+                    });
+                }
+            }
+        }
+
+        return issues;
+    }
+}
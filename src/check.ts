@@ -0,0 +1,594 @@
+import path from 'path';
+import semver from 'semver';
+import { MonorepoManager, PackageInfo } from './monorepo';
+import { Analyzer, ImportUsage } from './analyzer';
+import { VersionChecker } from './version-checker';
+import { AlignStrategy, ConfigLoader, RuleSeverity } from './config';
+import { ConsistencyChecker } from './consistency';
+import { InternalChecker } from './internal-checker';
+import { PeerChecker } from './peer-checker';
+import { OwnershipChecker } from './ownership-checker';
+import { CatalogChecker } from './catalog-checker';
+import { TypesChecker } from './types-checker';
+import { DependencyGraph } from './graph';
+import { Stats, Issue, IssueType, EffectiveConfig, toReportPath } from './report';
+import { Baseline, BaselineEntry } from './baseline';
+import { RuleResolver } from './rules';
+import { ManifestFix, ManifestFixer, FixAction } from './fixer';
+import { ALIGN_STRATEGIES, AlignmentTarget, VersionAligner } from './aligner';
+import { MonodepPlugin, PluginChecker, PluginLoader, configDetectors, pluginIssueType } from './plugins';
+import { PackageSelector } from './selection';
+import { resolveWorkspaceSettings } from './workspace-settings';
+
+export interface CheckOptions {
+    /** Monorepo root; defaults to the current working directory */
+    root?: string;
+    /** Skip unused/missing checks (covered by Knip) */
+    onlyExtras?: boolean;
+    /** Set to false to skip registry lookups for outdated dependencies */
+    outdated?: boolean;
+    checkInstalledPeers?: boolean;
+    ownershipReport?: boolean;
+    /** Count only files reachable from package.json entry points as prod code */
+    entryPoints?: boolean;
+    /** Path to a baseline file written by `--write-baseline` */
+    baseline?: string;
+    /** Rewrite manifests to fix unused, missing and wrongType issues */
+    fix?: boolean;
+    /** Align mismatched ranges; `true` uses the configured strategy (default `highest`) */
+    align?: AlignStrategy | boolean;
+    alignPeers?: boolean;
+    /** Plan fixes and alignments without writing any manifest */
+    dryRun?: boolean;
+    /** Only check packages changed since this git ref, plus the workspace packages depending on them */
+    since?: string;
+    /** Only check packages whose name or path matches one of these names or globs */
+    filter?: string[];
+    /** Source locations attached to each missing/wrongType issue; defaults to 3, `Infinity` for all */
+    evidence?: number;
+}
+
+export interface CheckResult {
+    root: string;
+    config: EffectiveConfig;
+    /** Every discovered package, including ones excluded by `skipPackages` */
+    packages: PackageInfo[];
+    /** Names of the packages checked; present only with `since` or `filter` */
+    selection?: string[];
+    /** Problems found while discovering workspaces (duplicate names, unparsable manifests) */
+    warnings: string[];
+    /** Plugins loaded from the `plugins` config */
+    plugins: MonodepPlugin[];
+    issues: Issue[];
+    stats: Stats;
+    /** Error-level issues that were not fixed; non-zero means the check failed */
+    totalIssues: number;
+    /** Present only when a baseline was applied */
+    baseline?: {
+        suppressed: number;
+        stale: BaselineEntry[];
+    };
+    /** Issues suppressed by the baseline; not included in `issues` */
+    baselinedIssues: Issue[];
+    fixes: ManifestFix[];
+    /** Present only when aligning */
+    alignment?: {
+        strategy: AlignStrategy;
+        peerDependencies: boolean;
+        applied: boolean;
+        dependencies: AlignmentTarget[];
+    };
+}
+
+// Issue category resolved by each kind of manifest fix
+const FIXED_ISSUE_TYPE: Record<FixAction['type'], IssueType> = {
+    remove: 'unused',
+    move: 'wrongType',
+    add: 'missing',
+    align: 'mismatch',
+};
+
+/**
+ * Run every check against a monorepo and return the findings without printing anything.
+ * Throws when the options or config are invalid (unparsable config, unknown align strategy,
+ * unreadable baseline, plugin that fails to load or run).
+ */
+export async function check(options: CheckOptions = {}): Promise<CheckResult> {
+    const rootDir = path.resolve(options.root ?? '.');
+    const onlyExtras = options.onlyExtras === true;
+    const dryRun = options.dryRun === true;
+
+    const configLoader = new ConfigLoader();
+    const config = await configLoader.load(rootDir);
+    const dynamicImportPolicy = config.dynamicImportPolicy === 'warn' || config.dynamicImportPolicy === 'strict'
+        ? config.dynamicImportPolicy
+        : 'off';
+    const checkInstalledPeers = options.checkInstalledPeers === true || config.checkInstalledPeers === true;
+    const ownershipReport = options.ownershipReport === true || config.ownershipReport === true;
+    const entryPoints = options.entryPoints === true || config.entryPoints === true;
+    const ownershipPolicy = config.ownershipPolicy === 'workspace-explicit' ? 'workspace-explicit' : 'root-shared';
+    const alignStrategy: AlignStrategy = typeof options.align === 'string' ? options.align : config.alignment?.strategy ?? 'highest';
+    if (options.evidence !== undefined && options.evidence !== Infinity && !(Number.isInteger(options.evidence) && options.evidence >= 0)) {
+        throw new Error(`Invalid evidence limit "${options.evidence}". Expected a non-negative integer`);
+    }
+    if (!ALIGN_STRATEGIES.includes(alignStrategy)) {
+        throw new Error(`Unknown align strategy "${alignStrategy}". Expected one of: ${ALIGN_STRATEGIES.join(', ')}`);
+    }
+    const alignPeers = options.alignPeers === true || config.alignment?.peerDependencies === true;
+
+    const plugins = await new PluginLoader().load(rootDir, config.plugins);
+    const pluginDefaults: Partial<Record<IssueType, RuleSeverity>> = {};
+    for (const plugin of plugins) {
+        for (const [rule, meta] of Object.entries(plugin.rules || {})) {
+            if (meta.severity) pluginDefaults[pluginIssueType(plugin, rule)] = meta.severity;
+        }
+    }
+
+    // Severity used when `rules` does not mention a category; keeps the legacy
+    // dynamicImportPolicy / informational-ownership behavior as the default.
+    const rules = new RuleResolver(rootDir, config, {
+        unused: 'error',
+        missing: 'error',
+        wrongType: 'error',
+        outdated: 'error',
+        mismatch: 'error',
+        internal: 'error',
+        peer: 'error',
+        'installed-peer': 'error',
+        dynamic: dynamicImportPolicy === 'strict' ? 'error' : dynamicImportPolicy === 'warn' ? 'warn' : 'off',
+        ownership: 'warn',
+        catalog: 'error',
+        cycle: 'error',
+        types: 'error',
+        ...pluginDefaults,
+    }, plugins);
+
+    let baseline: Baseline | null = null;
+    if (options.baseline) {
+        try {
+            baseline = Baseline.read(path.resolve(options.baseline));
+        } catch (e) {
+            throw new Error(`Failed to read baseline: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+
+    const monorepo = new MonorepoManager(rootDir);
+    const packages = await monorepo.getPackages();
+    const packagesByName = new Map(packages.map((pkg) => [pkg.name, pkg]));
+    const warnings = [...monorepo.warnings];
+
+    // --since/--filter narrow the per-package checks; repo-wide checks still see every package
+    let selection: Set<string> | null = null;
+    if (options.since !== undefined || options.filter !== undefined) {
+        const selector = new PackageSelector(rootDir, packages);
+        selection = new Set(packages.map((pkg) => pkg.name));
+        if (options.since !== undefined) {
+            const changed = selector.changedSince(options.since);
+            selection = new Set([...selection].filter((name) => changed.has(name)));
+        }
+        if (options.filter !== undefined) {
+            const filtered = selector.filter(options.filter);
+            if (filtered.size === 0) {
+                warnings.push(`No package matches --filter ${options.filter.join(', ')}`);
+            }
+            selection = new Set([...selection].filter((name) => filtered.has(name)));
+        }
+    }
+
+    const isSkipped = (pkg: PackageInfo): boolean =>
+        (!!config.skipPackages && config.skipPackages.includes(pkg.name)) || (selection !== null && !selection.has(pkg.name));
+
+    const analyzer = new Analyzer(packages, configDetectors(plugins));
+    const versionChecker = new VersionChecker();
+    const typesChecker = new TypesChecker();
+    const usedImports = new Map<string, Set<string>>();
+    const prodImportsByPackage = new Map<string, Set<string>>();
+    const devImportsByPackage = new Map<string, Set<string>>();
+
+    const stats: Stats = {
+        packagesScanned: 0,
+        packagesWithIssues: 0,
+        errorCount: 0,
+        warningCount: 0,
+        unusedCount: 0,
+        missingCount: 0,
+        wrongTypeCount: 0,
+        outdatedCount: 0,
+        mismatchCount: 0,
+        internalCount: 0,
+        peerCount: 0,
+        dynamicCount: 0,
+        installedPeerCount: 0,
+        ownershipCount: 0,
+        catalogCount: 0,
+        cycleCount: 0,
+        typesCount: 0,
+        pluginCount: 0,
+    };
+
+    const issues: Issue[] = [];
+    const baselinedIssues: Issue[] = [];
+
+    const severityOf = (type: IssueType, packageName: string): RuleSeverity =>
+        rules.severity(type, packagesByName.get(packageName));
+
+    const evidenceLimit = options.evidence ?? 3;
+    /** The first `evidenceLimit` usages behind an issue, plus their total. */
+    const evidenceOf = (usages: ImportUsage[]): Pick<Issue, 'evidence' | 'evidenceCount'> => usages.length === 0 ? {} : {
+        evidence: usages.slice(0, evidenceLimit).map((usage) => ({
+            file: toReportPath(rootDir, usage.file),
+            line: usage.line,
+            specifier: usage.specifier,
+            kind: usage.isTypeOnly ? 'type' : 'value',
+            usage: usage.isDev || usage.isTypeOnly ? 'dev' : 'prod',
+            reason: usage.reason,
+        })),
+        evidenceCount: usages.length,
+    };
+
+    /**
+     * Record an issue unless its rule is off for the owning workspace, the workspace is outside
+     * the --since/--filter selection, or the issue is in the baseline.
+     * Returns whether the issue was kept, so callers can filter their raw results with it.
+     */
+    const collect = (issue: Issue): boolean => {
+        if (selection && issue.package !== '*' && !selection.has(issue.package)) {
+            return false;
+        }
+        const severity = severityOf(issue.type, issue.package);
+        if (severity === 'off') {
+            return false;
+        }
+        if (baseline && baseline.matches(issue)) {
+            baselinedIssues.push(issue);
+            return false;
+        }
+        issue.severity = severity;
+        issues.push(issue);
+        return true;
+    };
+
+    // Per-workspace settings; --no-outdated and --entry-points win over the config
+    const settingsByPackage = new Map(packages.map((pkg) => {
+        const settings = resolveWorkspaceSettings(rootDir, config, pkg, packages);
+        return [pkg.name, {
+            ...settings,
+            checkOutdated: options.outdated !== false && settings.checkOutdated && severityOf('outdated', pkg.name) !== 'off',
+            entryPoints: options.entryPoints === true || settings.entryPoints,
+        }];
+    }));
+
+    // By default, all checks are enabled. Config can disable them.
+    // outdated: false or config.checkOutdated=false will disable outdated checks
+    const checkOutdated = options.outdated !== false && config.checkOutdated !== false && rules.isEnabledAnywhere('outdated');
+
+    /**
+     * Whether the check behind a baseline entry ran: its package was scanned and its issue type was
+     * evaluated there. Entries that were not checked cannot be told apart from fixed ones, so they are never stale.
+     */
+    const wasChecked = (entry: BaselineEntry): boolean => {
+        const pkg = packagesByName.get(entry.package);
+        if (pkg && isSkipped(pkg)) return false;
+        if (severityOf(entry.type, entry.package) === 'off') return false;
+        switch (entry.type) {
+            case 'unused':
+            case 'missing':
+            // Unpaired @types packages are not looked for, and entries do not record the problem
+            case 'types':
+                return !onlyExtras;
+            case 'outdated':
+                return pkg ? settingsByPackage.get(pkg.name)!.checkOutdated : checkOutdated;
+            case 'installed-peer':
+                return checkInstalledPeers;
+            case 'ownership':
+                return ownershipReport;
+            default:
+                return true;
+        }
+    };
+
+    // Pre-fetch all package versions at once for better performance
+    if (packages.some((pkg) => !isSkipped(pkg) && settingsByPackage.get(pkg.name)!.checkOutdated)) {
+        const allDependencies = new Set<string>();
+        for (const pkg of packages) {
+            if (isSkipped(pkg) || !settingsByPackage.get(pkg.name)!.checkOutdated) {
+                continue;
+            }
+            const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+            for (const [depName, depVersion] of Object.entries(deps)) {
+                if (!depVersion.startsWith('workspace:') && !depVersion.startsWith('file:') && !depVersion.startsWith('catalog:')) {
+                    allDependencies.add(depName);
+                }
+            }
+        }
+        await versionChecker.prefetch([...allDependencies]);
+    }
+
+    for (const pkg of packages) {
+        if (isSkipped(pkg)) {
+            continue;
+        }
+
+        stats.packagesScanned++;
+
+        const settings = settingsByPackage.get(pkg.name)!;
+        const result = await analyzer.analyze(pkg, settings);
+        const { prodImports, devImports } = result;
+        const allImports = new Set<string>([...prodImports, ...devImports]);
+        usedImports.set(pkg.name, allImports);
+        prodImportsByPackage.set(pkg.name, prodImports);
+        devImportsByPackage.set(pkg.name, devImports);
+
+        // Skip unused/missing checks in onlyExtras mode (Knip handles these)
+        if (!onlyExtras) {
+            stats.unusedCount += result.unused.filter((dep) => collect({
+                package: pkg.name,
+                type: 'unused',
+                dependency: dep,
+            })).length;
+            stats.missingCount += result.missing.filter((dep) => {
+                const firstUsage = result.usages.get(dep)?.[0];
+                return collect({
+                    package: pkg.name,
+                    type: 'missing',
+                    dependency: dep,
+                    file: firstUsage ? toReportPath(rootDir, firstUsage.file) : undefined,
+                    line: firstUsage?.line,
+                    ...evidenceOf(result.usages.get(dep) ?? []),
+                });
+            }).length;
+        }
+
+        stats.wrongTypeCount += result.wrongType.filter((info) => collect({
+            package: pkg.name,
+            type: 'wrongType',
+            dependency: info.dependency,
+            detail: `${info.actual} -> ${info.expected}`,
+            expected: info.expected,
+            actual: info.actual,
+            // Prod usages explain "should be in dependencies"; otherwise every usage is dev
+            ...evidenceOf((result.usages.get(info.dependency) ?? []).filter((usage) =>
+                info.expected === 'devDependencies' || (!usage.isDev && !usage.isTypeOnly)
+            )),
+        })).length;
+
+        stats.dynamicCount += result.dynamicCandidates.filter((candidate) => collect({
+            package: pkg.name,
+            type: 'dynamic',
+            dependency: candidate.expression,
+            detail: `${path.relative(pkg.location, candidate.file)}:${candidate.line}${describeDynamicCandidates(candidate.candidates)}`,
+            file: toReportPath(rootDir, candidate.file),
+            line: candidate.line,
+            candidates: candidate.candidates,
+        })).length;
+
+        // Stale @types packages are unused dependencies, which Knip reports in onlyExtras mode
+        stats.typesCount += typesChecker.check(pkg, allImports)
+            .filter((issue) => !settings.ignoreDependencies.includes(issue.dependency))
+            .filter((issue) => !onlyExtras || issue.problem !== 'unpaired')
+            .filter((issue) => collect({
+                package: pkg.name,
+                type: 'types',
+                dependency: issue.dependency,
+                detail: issue.detail,
+                types: issue.problem,
+                runtime: issue.runtime,
+                ...(issue.problem === 'misplaced' ? { expected: 'devDependencies', actual: 'dependencies' } : {}),
+            })).length;
+
+        if (settings.checkOutdated) {
+            const allDeps = { ...pkg.dependencies, ...pkg.devDependencies };
+            if (Object.keys(allDeps).length > 0) {
+                const outdated = await versionChecker.checkVersions(allDeps);
+                stats.outdatedCount += outdated.filter(info => {
+                    const range = semver.validRange(info.current, { loose: true });
+                    if (!range) return true;
+                    return !semver.satisfies(info.latest, range, { includePrerelease: true, loose: true });
+                }).filter(info => collect({
+                    package: pkg.name,
+                    type: 'outdated',
+                    dependency: info.package,
+                    detail: `${info.current} -> ${info.latest}`,
+                    current: info.current,
+                    latest: info.latest,
+                })).length;
+            }
+        }
+    }
+
+    // Check for version mismatches
+    const consistencyChecker = new ConsistencyChecker();
+    const mismatches = consistencyChecker.check(packages).filter((mismatch) => collect({
+        package: '*',
+        type: 'mismatch',
+        dependency: mismatch.dependency,
+        detail: mismatch.versions.map(v => `${v.version}(${v.packages.join(',')})`).join(' vs '),
+        versions: mismatch.versions,
+    }));
+    stats.mismatchCount = mismatches.length;
+
+    // Check for workspaces that bypass a catalog entry
+    const catalogChecker = new CatalogChecker();
+    stats.catalogCount = catalogChecker.check(packages.filter((pkg) => !isSkipped(pkg)), monorepo.catalogs).filter((issue) => collect({
+        package: issue.packageName,
+        type: 'catalog',
+        dependency: issue.dependency,
+        detail: issue.detail,
+        current: issue.version,
+        catalog: issue.reference,
+    })).length;
+
+    // Check for internal package reference issues
+    const internalChecker = new InternalChecker();
+    stats.internalCount = internalChecker.check(packages, usedImports).filter((issue) => collect({
+        package: issue.packageName,
+        type: 'internal',
+        dependency: issue.dependency,
+        detail: issue.detail,
+    })).length;
+
+    // Repo-wide checks also see the imports of packages outside the --since/--filter selection,
+    // which are analyzed without reporting anything for them
+    const repoProdImports = new Map(prodImportsByPackage);
+    const repoDevImports = new Map(devImportsByPackage);
+    if (selection && (rules.isEnabledAnywhere('cycle') || (ownershipReport && rules.isEnabledAnywhere('ownership')))) {
+        for (const pkg of packages) {
+            if (selection.has(pkg.name) || (config.skipPackages && config.skipPackages.includes(pkg.name))) {
+                continue;
+            }
+            const result = await analyzer.analyze(pkg, settingsByPackage.get(pkg.name)!);
+            repoProdImports.set(pkg.name, result.prodImports);
+            repoDevImports.set(pkg.name, result.devImports);
+        }
+    }
+
+    // Check for cycles between workspace packages (declared dependencies plus actual imports)
+    const graph = DependencyGraph.build(packages, repoProdImports, repoDevImports);
+    stats.cycleCount = graph.findCycles().filter((cycle) => collect({
+        package: '*',
+        type: 'cycle',
+        dependency: cycle.path.join(' -> '),
+        detail: cycle.kind === 'prod' ? 'prod' : 'dev-only',
+        packages: cycle.path.slice(0, -1),
+        cycle: cycle.kind,
+    })).length;
+
+    // Check for peer dependency issues
+    const peerChecker = new PeerChecker();
+    const rootPkg = packages.find(p => p.location === rootDir);
+    stats.peerCount = peerChecker.check(packages, rootPkg).filter((issue) => collect({
+        package: issue.packageName,
+        type: 'peer',
+        dependency: issue.peerDep,
+        detail: issue.detail,
+    })).length;
+
+    if (checkInstalledPeers && rules.isEnabledAnywhere('installed-peer')) {
+        stats.installedPeerCount = (await peerChecker.checkInstalledPeers(packages, rootPkg)).filter((issue) => collect({
+            package: issue.packageName,
+            type: 'installed-peer',
+            dependency: `${issue.dependency} -> ${issue.peerDep}`,
+            detail: issue.detail,
+            via: issue.dependency,
+        })).length;
+    }
+
+    if (ownershipReport && rules.isEnabledAnywhere('ownership')) {
+        const ownershipChecker = new OwnershipChecker();
+        stats.ownershipCount = ownershipChecker.check(
+            packages,
+            rootDir,
+            repoProdImports,
+            repoDevImports,
+            ownershipPolicy
+        ).filter((issue) => collect({
+            package: '*',
+            type: 'ownership',
+            dependency: issue.dependency,
+            detail: `${issue.type} ${issue.usage}: ${issue.packages.join(',')}`,
+            packages: issue.packages,
+            usage: issue.usage,
+            message: issue.detail,
+        })).length;
+    }
+
+    if (plugins.length > 0) {
+        const pluginChecker = new PluginChecker();
+        const pluginIssues = await pluginChecker.check(plugins, {
+            rootDir,
+            packages: packages.filter((pkg) => !isSkipped(pkg)),
+            prodImports: prodImportsByPackage,
+            devImports: devImportsByPackage,
+        });
+        stats.pluginCount = pluginIssues.filter(collect).length;
+    }
+
+    // Only error-level issues mark a package as failing; mismatches and cycles blame every package involved
+    const packagesWithIssues = new Set<string>();
+    for (const issue of issues) {
+        if (issue.severity !== 'error') continue;
+        if (issue.versions) {
+            issue.versions.forEach((v) => v.packages.forEach((pkgName) => packagesWithIssues.add(pkgName)));
+        } else if (issue.type === 'cycle') {
+            issue.packages?.forEach((pkgName) => packagesWithIssues.add(pkgName));
+        } else if (issue.package !== '*') {
+            packagesWithIssues.add(issue.package);
+        }
+    }
+
+    stats.packagesWithIssues = packagesWithIssues.size;
+    stats.errorCount = issues.filter((issue) => issue.severity === 'error').length;
+    stats.warningCount = issues.length - stats.errorCount;
+
+    const aligning = options.align !== undefined && options.align !== false;
+    const fixingIssues = options.fix === true;
+    const fixes: ManifestFix[] = [];
+    let alignmentTargets: AlignmentTarget[] = [];
+    if (fixingIssues || aligning) {
+        const fixer = new ManifestFixer(rootDir, packages, versionChecker, monorepo.catalogs);
+        const excluded = new Set(packages.filter(isSkipped).map((pkg) => pkg.name));
+        const aligner = new VersionAligner(rootDir, packages, config.alignment?.pinned || {}, alignPeers, excluded);
+        alignmentTargets = aligning ? aligner.resolve(mismatches, alignStrategy) : [];
+        const alignment = aligning ? aligner.toAlignment(alignmentTargets) : undefined;
+        for (const pkg of packages) {
+            if (isSkipped(pkg)) {
+                continue;
+            }
+            const fixableIssues = fixingIssues ? issues : [];
+            const fix = await fixer.plan(pkg, fixableIssues, prodImportsByPackage.get(pkg.name) || new Set(), alignment);
+            if (fix) {
+                fixes.push(fix);
+            }
+        }
+        if (!dryRun) {
+            fixes.forEach((fix) => fixer.apply(fix));
+        }
+    }
+
+    // Issues resolved by an applied fix no longer count toward the exit code
+    const isFixed = (issue: Issue): boolean => {
+        if (dryRun) return false;
+        if (issue.type === 'mismatch') {
+            return alignmentTargets.some((target) => target.dependency === issue.dependency && target.resolves);
+        }
+        return fixes.some((fix) =>
+            fix.package === issue.package &&
+            fix.actions.some((action) => action.dependency === issue.dependency && FIXED_ISSUE_TYPE[action.type] === issue.type)
+        );
+    };
+    const totalIssues = issues.filter((issue) => issue.severity === 'error' && !isFixed(issue)).length;
+
+    return {
+        root: rootDir,
+        config: {
+            ...config,
+            onlyExtras,
+            checkOutdated,
+            dynamicImportPolicy,
+            checkInstalledPeers,
+            ownershipReport,
+            ownershipPolicy,
+            entryPoints,
+        },
+        packages,
+        selection: selection ? [...selection].sort() : undefined,
+        warnings,
+        plugins,
+        issues,
+        stats,
+        totalIssues,
+        baseline: baseline
+            ? { suppressed: baseline.suppressedCount, stale: baseline.stale(wasChecked) }
+            : undefined,
+        baselinedIssues,
+        fixes,
+        alignment: aligning
+            ? { strategy: alignStrategy, peerDependencies: alignPeers, applied: !dryRun, dependencies: alignmentTargets }
+            : undefined,
+    };
+}
+
+function describeDynamicCandidates(candidates: string[] | undefined): string {
+    if (!candidates) return '';
+    return candidates.length > 0 ? `, could load ${candidates.join(', ')}` : ', matches no declared package';
+}
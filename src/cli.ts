@@ -0,0 +1,614 @@
+import { Command } from 'commander';
+import path from 'path';
+import chalk from 'chalk';
+import { check, CheckResult } from './check';
+import { Issue, IssueType, buildJsonReport, formatCompactEvidence, formatCompactIssue, toReportPath } from './report';
+import { buildSarifLog } from './sarif';
+import { Baseline } from './baseline';
+import { describeFixAction } from './fixer';
+import { ALIGN_STRATEGIES } from './aligner';
+import { isPluginIssueType } from './plugins';
+import { diffLines } from './manifest';
+import { EDGE_KINDS, EdgeKind, GRAPH_DIRECTIONS, GraphResult, graph } from './graph';
+import { GRAPH_FORMATS, GraphFormat, renderGraph } from './graph-format';
+import { WhyResult, why } from './why';
+
+type OutputFormat = 'text' | 'compact' | 'json' | 'sarif';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'compact', 'json', 'sarif'];
+
+const program = new Command();
+
+program
+    .name('monodep')
+    .description('A dependency check tool for monorepos')
+    .version('1.0.0')
+    // Lets subcommands reuse option names such as --format
+    .enablePositionalOptions()
+    .argument('[directory]', 'Root directory of the project', '.')
+    .option('--compact', 'Output compact log for AI agents (alias for --format compact)')
+    .option('--format <format>', `Output format (${OUTPUT_FORMATS.join(', ')})`, 'text')
+    .option('--only-extras', 'Only run checks not covered by Knip (wrongType, mismatch, outdated, internal, cycle, peer, types)')
+    .option('--no-outdated', 'Skip outdated dependency checks (faster execution)')
+    .option('--check-installed-peers', 'Validate peer requirements from installed dependencies in node_modules')
+    .option('--entry-points', 'Count only files reachable from package.json entry points as prod code')
+    .option('--ownership-report', 'Show dependency ownership suggestions across workspaces (informational)')
+    .option('--baseline <file>', 'Suppress issues recorded in a baseline file; only new issues fail')
+    .option('--write-baseline <file>', 'Write all current issues to a baseline file and exit successfully')
+    .option('--fix', 'Rewrite package.json files to fix unused, missing and wrongType issues')
+    .option('--align [strategy]', `Rewrite mismatched ranges to a single range (${ALIGN_STRATEGIES.join(', ')}; default: highest)`)
+    .option('--align-peers', 'Also rewrite peerDependencies ranges when aligning')
+    .option('--dry-run', 'Show the package.json changes --fix/--align would make without writing them')
+    .option('--since <ref>', 'Only check packages changed since a git ref, plus the workspace packages depending on them')
+    .option('--filter <pattern>', 'Only check packages matching a name or glob (repeatable)', (value: string, previous: string[] = []) => [...previous, value])
+    .option('--evidence <count>', 'Source locations listed under each missing/wrongType issue (a number, or "all")', '3')
+    .action(async (directory, options) => {
+        const rootDir = path.resolve(directory);
+        const format: OutputFormat = options.compact ? 'compact' : options.format;
+        if (!OUTPUT_FORMATS.includes(format)) {
+            console.error(chalk.red(`Unknown format "${options.format}". Expected one of: ${OUTPUT_FORMATS.join(', ')}`));
+            process.exit(2);
+        }
+        if (options.evidence !== 'all' && !/^\d+$/.test(options.evidence)) {
+            console.error(chalk.red(`Invalid --evidence value "${options.evidence}". Expected a number or "all"`));
+            process.exit(2);
+        }
+        const onlyExtras = options.onlyExtras === true;
+
+        if (format === 'text') {
+            const modeLabel = onlyExtras ? ' (extras only)' : '';
+            console.log(chalk.bold.blue(`\n📦 monodep - Monorepo Dependency Checker${modeLabel}\n`));
+            console.log(chalk.gray(`Analyzing project at ${rootDir}...`));
+            if (onlyExtras) {
+                console.log(chalk.gray('Running only monodep-specific checks (wrongType, mismatch, outdated)'));
+                console.log(chalk.gray('Use full mode for unused/missing dependency detection, or use Knip.\n'));
+            }
+        }
+
+        // A bare --dry-run previews --fix; with --align it previews only the alignment
+        const dryRun = options.dryRun === true;
+        let result: CheckResult;
+        try {
+            result = await check({
+                root: rootDir,
+                onlyExtras,
+                outdated: options.outdated,
+                checkInstalledPeers: options.checkInstalledPeers === true,
+                ownershipReport: options.ownershipReport === true,
+                entryPoints: options.entryPoints === true,
+                baseline: options.baseline,
+                fix: options.fix === true || (dryRun && options.align === undefined),
+                align: options.align,
+                alignPeers: options.alignPeers === true,
+                dryRun,
+                since: options.since,
+                filter: options.filter,
+                evidence: options.evidence === 'all' ? Infinity : Number(options.evidence),
+            });
+        } catch (e) {
+            console.error(chalk.red(e instanceof Error ? e.message : String(e)));
+            process.exit(2);
+        }
+
+        // With --since/--filter, entries of packages that were not checked stay in the file
+        const selection = result.selection;
+        let written: number | null = null;
+        if (options.writeBaseline) {
+            try {
+                written = Baseline.write(
+                    path.resolve(options.writeBaseline),
+                    [...result.issues, ...result.baselinedIssues],
+                    selection ? (entry) => entry.package !== '*' && !selection.includes(entry.package) : undefined
+                );
+            } catch (e) {
+                console.error(chalk.red(`Failed to write baseline: ${e instanceof Error ? e.message : String(e)}`));
+                process.exit(2);
+            }
+        }
+        if (written !== null && format !== 'text') {
+            console.error(`[monodep] baseline-written=${written} file=${options.writeBaseline}`);
+        }
+
+        if (format === 'json') {
+            const report = buildJsonReport(result.root, result.config, result.stats, result.totalIssues, result.issues);
+            if (result.warnings.length > 0) {
+                report.warnings = result.warnings;
+            }
+            if (result.selection) {
+                report.selection = result.selection;
+            }
+            if (result.baseline) {
+                report.baseline = result.baseline;
+            }
+            if (result.alignment) {
+                report.alignment = result.alignment;
+            }
+            if (options.fix || dryRun || result.alignment) {
+                report.fixes = result.fixes.map((fix) => ({
+                    package: fix.package,
+                    manifest: toReportPath(result.root, fix.manifestPath),
+                    applied: !dryRun,
+                    actions: fix.actions,
+                    skipped: fix.skipped,
+                }));
+            }
+            console.log(JSON.stringify(report, null, 2));
+        } else if (format === 'sarif') {
+            const sarif = buildSarifLog(result.root, result.packages, result.issues, (issue) => issue.severity === 'error' ? 'error' : 'warning', result.plugins);
+            console.log(JSON.stringify(sarif, null, 2));
+        } else if (format === 'compact') {
+            renderCompact(result, dryRun);
+        } else {
+            renderText(result, dryRun);
+            if (written !== null) {
+                console.log(chalk.green(`📝 Wrote ${written} issues to baseline ${options.writeBaseline}\n`));
+            }
+        }
+
+        if (result.totalIssues > 0 && !options.writeBaseline) {
+            process.exit(1);
+        }
+    });
+
+program
+    .command('graph')
+    .description('Print the workspace dependency graph')
+    .argument('[directory]', 'Root directory of the project', '.')
+    .option('--format <format>', `Graph format (${GRAPH_FORMATS.join(', ')})`, 'dot')
+    .option('--external', 'Include external (npm) dependencies')
+    .option('--edges <kinds>', `Comma-separated edge kinds to include (${EDGE_KINDS.join(', ')})`, EDGE_KINDS.join(','))
+    .option('--focus <package>', 'Only show this package and its closure')
+    .option('--direction <direction>', `Closure kept with --focus (${GRAPH_DIRECTIONS.join(', ')}; upstream = its dependencies)`, 'both')
+    .action(async (directory, options) => {
+        const format: GraphFormat = options.format;
+        if (!GRAPH_FORMATS.includes(format)) {
+            console.error(chalk.red(`Unknown format "${options.format}". Expected one of: ${GRAPH_FORMATS.join(', ')}`));
+            process.exit(2);
+        }
+
+        let result: GraphResult;
+        try {
+            result = await graph({
+                root: path.resolve(directory),
+                external: options.external === true,
+                edges: String(options.edges).split(',').map((kind) => kind.trim()).filter(Boolean) as EdgeKind[],
+                focus: options.focus,
+                direction: options.direction,
+            });
+        } catch (e) {
+            console.error(chalk.red(e instanceof Error ? e.message : String(e)));
+            process.exit(2);
+        }
+
+        // stdout carries only the graph so it can be piped into dot or a Markdown file
+        result.warnings.forEach((warning) => console.error(`[warning] ${warning}`));
+        console.log(renderGraph(result, format));
+    });
+
+program
+    .command('why')
+    .description('Show where a dependency is declared and used in every workspace')
+    .argument('<dependency>', 'Package name')
+    .argument('[directory]', 'Root directory of the project', '.')
+    .option('--format <format>', 'Output format (text, json)', 'text')
+    .option('--entry-points', 'Count only files reachable from package.json entry points as prod code')
+    .action(async (dependency, directory, options) => {
+        if (options.format !== 'text' && options.format !== 'json') {
+            console.error(chalk.red(`Unknown format "${options.format}". Expected one of: text, json`));
+            process.exit(2);
+        }
+
+        let result: WhyResult;
+        try {
+            result = await why(dependency, {
+                root: path.resolve(directory),
+                entryPoints: options.entryPoints === true ? true : undefined,
+            });
+        } catch (e) {
+            console.error(chalk.red(e instanceof Error ? e.message : String(e)));
+            process.exit(2);
+        }
+
+        result.warnings.forEach((warning) => console.error(`[warning] ${warning}`));
+        if (options.format === 'json') {
+            console.log(JSON.stringify(result, null, 2));
+        } else {
+            renderWhy(result);
+        }
+    });
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+function alignedManifestCount(result: CheckResult, dependency: string): number {
+    return result.fixes.filter((fix) =>
+        fix.actions.some((action) => action.type === 'align' && action.dependency === dependency)
+    ).length;
+}
+
+// Compact output for AI agents
+function renderCompact(result: CheckResult, dryRun: boolean): void {
+    const { stats } = result;
+    const warningLabel = stats.warningCount > 0 ? ` warnings=${stats.warningCount}` : '';
+    const baselineLabel = result.baseline ? ` baselined=${result.baseline.suppressed}` : '';
+    console.log(`[monodep] scanned=${stats.packagesScanned} issues=${result.totalIssues}${warningLabel}${baselineLabel}`);
+    for (const warning of result.warnings) {
+        console.log(`[warning] ${warning}`);
+    }
+    for (const issue of result.issues) {
+        console.log(formatCompactIssue(issue));
+        formatCompactEvidence(issue).forEach((line) => console.log(line));
+    }
+    for (const entry of result.baseline?.stale ?? []) {
+        console.log(`[baseline-stale] ${entry.package}: ${entry.dependency} (${entry.type})`);
+    }
+    for (const fix of result.fixes) {
+        const tag = dryRun ? 'fix-dry-run' : 'fixed';
+        fix.actions.forEach((action) => console.log(`[${tag}] ${fix.package}: ${describeFixAction(action)}`));
+        fix.skipped.forEach((skip) => console.log(`[fix-skipped] ${fix.package}: ${skip.dependency} (${skip.reason})`));
+    }
+    for (const target of result.alignment?.dependencies ?? []) {
+        if (!target.version) {
+            console.log(`[align-skipped] ${target.dependency} (${target.reason})`);
+            continue;
+        }
+        const tag = dryRun ? 'align-dry-run' : 'aligned';
+        const peerNote = target.excluded ? `, not checked: ${target.excluded.join(',')}` : target.resolves ? '' : ', peerDependencies left unchanged';
+        console.log(`[${tag}] ${target.dependency}: ${target.version} (${plural(alignedManifestCount(result, target.dependency), 'manifest')}${peerNote})`);
+    }
+}
+
+/** Source locations under a missing/wrongType issue in text output. */
+function printEvidence(issue: Issue): void {
+    for (const item of issue.evidence ?? []) {
+        console.log(chalk.gray(`         ${item.file}:${item.line} (${item.reason})`));
+    }
+    const hidden = (issue.evidenceCount ?? 0) - (issue.evidence?.length ?? 0);
+    if (hidden > 0) {
+        console.log(chalk.gray(`         … ${plural(hidden, 'more location')} (--evidence all)`));
+    }
+}
+
+function renderWhy(result: WhyResult): void {
+    console.log(chalk.bold.blue(`\n🔍 Why ${result.dependency}\n`));
+    if (result.workspaces.length === 0) {
+        console.log(chalk.gray(`   ${result.dependency} is not declared or referenced by any workspace.`));
+        return;
+    }
+
+    for (const workspace of result.workspaces) {
+        console.log(chalk.bold(`📁 ${workspace.name}`) + chalk.gray(` (${workspace.path})`));
+        if (workspace.declared.length > 0) {
+            const declared = workspace.declared.map((entry) => `${entry.field} ${entry.range}`).join(', ');
+            console.log(`   Declared in ${declared}`);
+        } else if (workspace.references.length > 0) {
+            console.log(chalk.red('   Not declared'));
+        }
+        if (workspace.references.length > 0) {
+            console.log(`   ${plural(workspace.references.length, 'reference')}:`);
+            for (const reference of workspace.references) {
+                const classification = reference.classification === 'dev' ? chalk.yellow('dev') : chalk.green('prod');
+                console.log(`     - ${reference.file}:${reference.line} ${reference.specifier} ` +
+                    chalk.gray(`(${reference.kind}, `) + classification + chalk.gray(`: ${reference.rule})`));
+            }
+        }
+        for (const chain of workspace.via) {
+            console.log(chalk.cyan(`   via ${chain.join(' → ')}`));
+        }
+        console.log();
+    }
+}
+
+function renderText(result: CheckResult, dryRun: boolean): void {
+    const { stats, issues } = result;
+    const onlyExtras = result.config.onlyExtras;
+
+    const severityLabel = (group: Issue[]): string =>
+        group.some((issue) => issue.severity === 'warn') ? chalk.dim(' (warn)') : '';
+
+    console.log(chalk.gray(`Found ${result.packages.length} packages.\n`));
+    if (result.selection) {
+        const selected = result.selection.length > 0 ? `: ${result.selection.join(', ')}` : '';
+        console.log(chalk.gray(`Checking ${plural(result.selection.length, 'selected package')}${selected}\n`));
+    }
+    if (result.warnings.length > 0) {
+        result.warnings.forEach((warning) => console.log(chalk.yellow(`⚠ ${warning}`)));
+        console.log('');
+    }
+
+    for (const pkg of result.packages) {
+        if (result.config.skipPackages && result.config.skipPackages.includes(pkg.name)) {
+            continue;
+        }
+        // Packages outside the --since/--filter selection were never checked
+        if (result.selection && !result.selection.includes(pkg.name)) {
+            continue;
+        }
+
+        const label = pkg.location === result.root ? `${pkg.name} ${chalk.dim('(root)')}` : pkg.name;
+        console.log(chalk.bold.cyan(`📁 ${label}`));
+        console.log(chalk.gray(`   ${pkg.location}`));
+
+        const packageIssues = issues.filter((issue) => issue.package === pkg.name);
+        const ofType = (type: IssueType): Issue[] => packageIssues.filter((issue) => issue.type === type);
+
+        const unused = ofType('unused');
+        if (unused.length > 0) {
+            console.log(chalk.yellow(`   ⚠ Unused dependencies${severityLabel(unused)}:`));
+            unused.forEach((issue) => console.log(chalk.yellow(`     - ${issue.dependency}`)));
+        }
+
+        const missing = ofType('missing');
+        if (missing.length > 0) {
+            console.log(chalk.red(`   ✗ Missing dependencies${severityLabel(missing)}:`));
+            missing.forEach((issue) => {
+                console.log(chalk.red(`     - ${issue.dependency}`));
+                printEvidence(issue);
+            });
+        }
+
+        const wrongType = ofType('wrongType');
+        if (wrongType.length > 0) {
+            console.log(chalk.magenta(`   ⚡ Wrong dependency types${severityLabel(wrongType)}:`));
+            wrongType.forEach((issue) => {
+                console.log(chalk.magenta(`     - ${issue.dependency}: Should be in ${chalk.bold(issue.expected)} (found in ${issue.actual})`));
+                printEvidence(issue);
+            });
+        }
+
+        const dynamic = ofType('dynamic');
+        if (dynamic.length > 0) {
+            const strict = dynamic.some((issue) => issue.severity === 'error');
+            console.log(chalk.blue(strict ? '   ⚠ Dynamic import candidates (strict):' : '   ℹ Dynamic import candidates:'));
+            dynamic.forEach((issue) => console.log(chalk.blue(`     - ${issue.detail} (${issue.dependency})`)));
+        }
+
+        const outdated = ofType('outdated');
+        if (outdated.length > 0) {
+            console.log(chalk.yellow(`   ⏰ Outdated dependencies${severityLabel(outdated)}:`));
+            outdated.forEach((issue) => {
+                console.log(chalk.yellow(`     - ${issue.dependency}: ${chalk.dim(issue.current)} → ${chalk.bold(issue.latest)}`));
+            });
+        }
+
+        const pluginIssues = packageIssues.filter((issue) => isPluginIssueType(issue.type));
+        for (const type of new Set(pluginIssues.map((issue) => issue.type))) {
+            const group = pluginIssues.filter((issue) => issue.type === type);
+            console.log(chalk.cyan(`   🔌 ${type}${severityLabel(group)}:`));
+            group.forEach((issue) => console.log(chalk.cyan(`     - ${issue.dependency}${issue.detail ? `: ${issue.detail}` : ''}`)));
+        }
+
+        const catalog = ofType('catalog');
+        if (catalog.length > 0) {
+            console.log(chalk.yellow(`   📒 Catalog entries not used${severityLabel(catalog)}:`));
+            catalog.forEach((issue) =>
+                console.log(chalk.yellow(`     - ${issue.dependency}: ${chalk.dim(issue.current)} → ${chalk.bold(issue.catalog)}`))
+            );
+        }
+
+        const types = ofType('types');
+        if (types.length > 0) {
+            console.log(chalk.yellow(`   🏷️  @types packages${severityLabel(types)}:`));
+            types.forEach((issue) => console.log(chalk.yellow(issue.types === 'misplaced'
+                ? `     - ${issue.dependency}: Should be in ${chalk.bold(issue.expected)} (found in ${issue.actual}, private package)`
+                : `     - ${issue.dependency}: ${issue.detail}`)));
+        }
+
+        const shown = [...unused, ...missing, ...wrongType, ...dynamic, ...outdated, ...catalog, ...types, ...pluginIssues];
+        if (shown.length === 0) {
+            console.log(chalk.green('   ✓ No issues found.'));
+        } else if (shown.every((issue) => issue.severity !== 'error')) {
+            console.log(chalk.green('   ✓ No blocking issues.'));
+        }
+        console.log('');
+    }
+
+    const ofType = (type: IssueType): Issue[] => issues.filter((issue) => issue.type === type);
+
+    const mismatches = ofType('mismatch');
+    if (mismatches.length > 0) {
+        console.log(chalk.bold.red(`🔀 Version Mismatches Found${severityLabel(mismatches)}:`));
+        for (const mismatch of mismatches) {
+            console.log(chalk.red(`   ${mismatch.dependency}:`));
+            for (const v of mismatch.versions || []) {
+                console.log(chalk.red(`     - ${chalk.bold(v.version)} in ${v.packages.join(', ')}`));
+            }
+        }
+        console.log('');
+    }
+
+    const internal = ofType('internal');
+    if (internal.length > 0) {
+        console.log(chalk.bold.yellow('📦 Internal Package Issues Found:'));
+        for (const issue of internal) {
+            console.log(chalk.yellow(`   ${issue.package}: ${issue.dependency}${severityLabel([issue])}`));
+            console.log(chalk.yellow(`     - ${issue.detail}`));
+        }
+        console.log('');
+    }
+
+    const cycles = ofType('cycle');
+    if (cycles.length > 0) {
+        console.log(chalk.bold.red('♻️  Dependency Cycles Found:'));
+        for (const issue of cycles) {
+            console.log(chalk.red(`   ${issue.dependency.split(' -> ').join(' → ')}${severityLabel([issue])}`));
+            console.log(chalk.red(issue.cycle === 'dev'
+                ? '     - dev-only: closes through devDependencies or test imports (often acceptable)'
+                : '     - prod: breaks build order and publishing'));
+        }
+        console.log('');
+    }
+
+    const peer = ofType('peer');
+    if (peer.length > 0) {
+        console.log(chalk.bold.cyan('🔗 Peer Dependency Issues Found:'));
+        for (const issue of peer) {
+            console.log(chalk.cyan(`   ${issue.package}: ${issue.dependency}${severityLabel([issue])}`));
+            console.log(chalk.cyan(`     - ${issue.detail}`));
+        }
+        console.log('');
+    }
+
+    const installedPeer = ofType('installed-peer');
+    if (installedPeer.length > 0) {
+        console.log(chalk.bold.cyan('🧩 Installed Peer Issues Found:'));
+        for (const issue of installedPeer) {
+            console.log(chalk.cyan(`   ${issue.package}: ${issue.dependency}${severityLabel([issue])}`));
+            console.log(chalk.cyan(`     - ${issue.detail}`));
+        }
+        console.log('');
+    }
+
+    const ownership = ofType('ownership');
+    if (ownership.length > 0) {
+        console.log(chalk.bold.blue(`🧭 Ownership Suggestions (${result.config.ownershipPolicy}):`));
+        for (const issue of ownership) {
+            console.log(chalk.blue(`   ${issue.dependency} [${issue.usage}]`));
+            console.log(chalk.blue(`     - ${issue.message}`));
+        }
+        console.log('');
+    }
+
+    const repoPluginIssues = issues.filter((issue) => issue.package === '*' && isPluginIssueType(issue.type));
+    if (repoPluginIssues.length > 0) {
+        console.log(chalk.bold.cyan('🔌 Plugin Issues Found:'));
+        for (const issue of repoPluginIssues) {
+            console.log(chalk.cyan(`   ${issue.type}: ${issue.dependency}${severityLabel([issue])}`));
+            if (issue.detail) {
+                console.log(chalk.cyan(`     - ${issue.detail}`));
+            }
+        }
+        console.log('');
+    }
+
+    if (result.fixes.length > 0) {
+        console.log(chalk.bold.green(dryRun ? '🔧 Manifest Fixes (dry run):' : '🔧 Manifest Fixes Applied:'));
+        for (const fix of result.fixes) {
+            console.log(chalk.green(`   ${fix.package} ${chalk.dim(toReportPath(result.root, fix.manifestPath))}`));
+            fix.actions.forEach((action) => console.log(chalk.green(`     - ${describeFixAction(action)}`)));
+            fix.skipped.forEach((skip) => console.log(chalk.gray(`     - skipped ${skip.dependency}: ${skip.reason}`)));
+            if (dryRun && fix.before !== fix.after) {
+                for (const line of diffLines(fix.before, fix.after)) {
+                    const color = line.startsWith('+') ? chalk.green : line.startsWith('-') ? chalk.red : chalk.gray;
+                    console.log(color(`       ${line}`));
+                }
+            }
+        }
+        console.log('');
+    }
+
+    if (result.alignment && result.alignment.dependencies.length > 0) {
+        console.log(chalk.bold.green(`🔀 Version Alignment (${result.alignment.strategy}${dryRun ? ', dry run' : ''}):`));
+        for (const target of result.alignment.dependencies) {
+            if (!target.version) {
+                console.log(chalk.gray(`   ${target.dependency}: skipped (${target.reason})`));
+                continue;
+            }
+            const count = alignedManifestCount(result, target.dependency);
+            console.log(chalk.green(`   ${target.dependency} → ${chalk.bold(target.version)} (${plural(count, 'manifest')})`));
+            if (target.excluded) {
+                console.log(chalk.yellow(`     ${target.excluded.join(', ')} left unchanged: not checked (skipPackages, --since or --filter)`));
+            } else if (!target.resolves) {
+                console.log(chalk.yellow('     peerDependencies ranges left unchanged; use --align-peers to rewrite them'));
+            }
+        }
+        console.log('');
+    }
+
+    const staleBaselineEntries = result.baseline?.stale ?? [];
+    if (staleBaselineEntries.length > 0) {
+        console.log(chalk.bold.gray('🗂  Stale Baseline Entries (no longer reproduce):'));
+        for (const entry of staleBaselineEntries) {
+            console.log(chalk.gray(`   [${entry.type}] ${entry.package}: ${entry.dependency}`));
+        }
+        console.log('');
+    }
+
+    // Appends "(warn)" / "(N warn)" when some issues of a category are warnings rather than errors
+    const countLabel = (type: IssueType | 'plugin', count: number): string => {
+        const ofCategory = (issue: Issue): boolean => type === 'plugin' ? isPluginIssueType(issue.type) : issue.type === type;
+        const warnings = issues.filter((issue) => ofCategory(issue) && issue.severity === 'warn').length;
+        if (warnings === 0) return `${count}`;
+        return warnings === count ? `${count} (warn)` : `${count} (${warnings} warn)`;
+    };
+
+    // Print summary
+    console.log(chalk.bold('─'.repeat(50)));
+    console.log(chalk.bold('\n📊 Summary\n'));
+
+    console.log(`   Packages scanned:     ${chalk.bold(stats.packagesScanned)}`);
+    console.log(`   Packages with issues: ${stats.packagesWithIssues > 0 ? chalk.bold.red(stats.packagesWithIssues) : chalk.bold.green(stats.packagesWithIssues)}`);
+    console.log('');
+
+    if (!onlyExtras) {
+        if (stats.unusedCount > 0) {
+            console.log(chalk.yellow(`   ⚠ Unused:      ${countLabel('unused', stats.unusedCount)}`));
+        }
+        if (stats.missingCount > 0) {
+            console.log(chalk.red(`   ✗ Missing:     ${countLabel('missing', stats.missingCount)}`));
+        }
+    }
+    if (stats.wrongTypeCount > 0) {
+        console.log(chalk.magenta(`   ⚡ Wrong type:  ${countLabel('wrongType', stats.wrongTypeCount)}`));
+    }
+    if (stats.outdatedCount > 0) {
+        console.log(chalk.yellow(`   ⏰ Outdated:    ${countLabel('outdated', stats.outdatedCount)}`));
+    }
+    if (stats.mismatchCount > 0) {
+        console.log(chalk.red(`   🔀 Mismatches:  ${countLabel('mismatch', stats.mismatchCount)}`));
+    }
+    if (stats.internalCount > 0) {
+        console.log(chalk.yellow(`   📦 Internal:    ${countLabel('internal', stats.internalCount)}`));
+    }
+    if (stats.cycleCount > 0) {
+        console.log(chalk.red(`   ♻️  Cycles:      ${countLabel('cycle', stats.cycleCount)}`));
+    }
+    if (stats.peerCount > 0) {
+        console.log(chalk.cyan(`   🔗 Peer:        ${countLabel('peer', stats.peerCount)}`));
+    }
+    if (stats.installedPeerCount > 0) {
+        console.log(chalk.cyan(`   🧩 Installed:   ${countLabel('installed-peer', stats.installedPeerCount)}`));
+    }
+    if (stats.dynamicCount > 0) {
+        console.log(chalk.blue(`   ℹ Dynamic:     ${countLabel('dynamic', stats.dynamicCount)}`));
+    }
+    if (stats.ownershipCount > 0) {
+        console.log(chalk.gray(`   🧭 Ownership:   ${countLabel('ownership', stats.ownershipCount)}`));
+    }
+    if (stats.catalogCount > 0) {
+        console.log(chalk.yellow(`   📒 Catalog:     ${countLabel('catalog', stats.catalogCount)}`));
+    }
+    if (stats.typesCount > 0) {
+        console.log(chalk.yellow(`   🏷️  Types:       ${countLabel('types', stats.typesCount)}`));
+    }
+    if (stats.pluginCount > 0) {
+        console.log(chalk.cyan(`   🔌 Plugins:     ${countLabel('plugin', stats.pluginCount)}`));
+    }
+    if (result.baseline && result.baseline.suppressed > 0) {
+        console.log(chalk.gray(`   🗂  Baselined:   ${result.baseline.suppressed} (suppressed)`));
+    }
+    const fixActionCount = result.fixes.reduce((count, fix) => count + fix.actions.length, 0);
+    if (fixActionCount > 0) {
+        console.log(chalk.green(`   🔧 ${dryRun ? 'Fixable:' : 'Fixed:  '}     ${fixActionCount}`));
+    }
+    if (staleBaselineEntries.length > 0) {
+        console.log(chalk.gray(`   🗂  Stale:       ${staleBaselineEntries.length} (remove from baseline)`));
+    }
+
+    if (result.totalIssues === 0 && stats.warningCount === 0) {
+        console.log(chalk.green('   No issues found.'));
+    }
+
+    console.log('');
+    console.log(chalk.bold('─'.repeat(50)));
+
+    if (result.totalIssues > 0) {
+        const warningSuffix = stats.warningCount > 0 ? ` (${plural(stats.warningCount, 'warning')})` : '';
+        console.log(chalk.bold.red(`\n❌ Total issues: ${result.totalIssues}${warningSuffix}\n`));
+    } else if (stats.warningCount > 0) {
+        console.log(chalk.bold.yellow(`\n✅ All checks passed with ${plural(stats.warningCount, 'warning')}\n`));
+    } else {
+        console.log(chalk.bold.green('\n✅ All checks passed!\n'));
+    }
+}
+
+program.parse();
@@ -1,4 +1,42 @@
 import { lilconfig } from 'lilconfig';
+import { IssueType } from './report';
+import { MonodepPlugin } from './plugins';
+
+export type RuleSeverity = 'error' | 'warn' | 'off';
+
+export type RulesConfig = Partial<Record<IssueType, RuleSeverity>>;
+
+/**
+ * Settings that can be overridden for a single workspace.
+ * Keys of `DepcheckConfig.workspaces` are package names or globs matched against
+ * the workspace path relative to the root (e.g. `apps/*`).
+ */
+export interface WorkspaceConfig {
+    rules?: RulesConfig;
+    /** Added to the top-level `ignorePatterns` */
+    ignorePatterns?: string[];
+    /** Added to the top-level `ignoreDependencies` */
+    ignoreDependencies?: string[];
+    /** Added to the top-level `devFiles` */
+    devFiles?: string[];
+    /** Added to the top-level `prodFiles` */
+    prodFiles?: string[];
+    defaultDevFiles?: boolean;
+    checkOutdated?: boolean;
+    entryPoints?: boolean;
+}
+
+export type AlignStrategy = 'highest' | 'most-common' | 'root' | 'pinned';
+
+/**
+ * How `--align` picks the range that every workspace is rewritten to.
+ * `pinned` ranges always win; with the `pinned` strategy, unpinned dependencies are left alone.
+ */
+export interface AlignmentConfig {
+    strategy?: AlignStrategy;
+    pinned?: Record<string, string>;
+    peerDependencies?: boolean;
+}
 
 export interface DepcheckConfig {
     ignorePatterns?: string[];
@@ -9,22 +47,33 @@ export interface DepcheckConfig {
     checkInstalledPeers?: boolean;
     ownershipReport?: boolean;
     ownershipPolicy?: 'root-shared' | 'workspace-explicit';
+    /** Count only files reachable from package.json entry points as prod code */
+    entryPoints?: boolean;
+    /** Globs (relative to each workspace) of files that count as dev code, checked before the built-in rules */
+    devFiles?: string[];
+    /** Globs of files that always count as prod code, even when a dev rule matches */
+    prodFiles?: string[];
+    /** Set to false to drop the built-in dev file rules (`*.test.*`, `__tests__/`, `*.config.*`, …) */
+    defaultDevFiles?: boolean;
+    rules?: RulesConfig;
+    workspaces?: Record<string, WorkspaceConfig>;
+    alignment?: AlignmentConfig;
+    /** Module specifiers (resolved from the root) or plugin objects from a JS config */
+    plugins?: (string | MonodepPlugin)[];
 }
 
 export class ConfigLoader {
+    /** Returns an empty config when none is found; throws when a config file cannot be loaded or parsed. */
     async load(rootDir: string): Promise<DepcheckConfig> {
         const explorer = lilconfig('monodep', {
             stopDir: rootDir,
         });
 
-        try {
-            const result = await explorer.search(rootDir);
-            if (result && result.config) {
-                // console.log(`Loaded config from ${result.filepath}`);
-                return result.config as DepcheckConfig;
-            }
-        } catch (e) {
-            console.warn('Failed to load config:', e);
+        const result = await explorer.search(rootDir).catch((e: unknown) => {
+            throw new Error(`Failed to load config: ${e instanceof Error ? e.message : e}`);
+        });
+        if (result && result.config) {
+            return result.config as DepcheckConfig;
         }
 
         return {};
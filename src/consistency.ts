@@ -16,8 +16,9 @@ export class ConsistencyChecker {
             const allDeps = { ...pkg.dependencies, ...pkg.devDependencies, ...pkg.peerDependencies };
 
             for (const [dep, version] of Object.entries(allDeps)) {
-                // Skip workspace protocols and file paths as they are local
-                if (version.startsWith('workspace:') || version.startsWith('file:')) {
+                // Skip workspace protocols and file paths as they are local, and catalog references
+                // that could not be resolved (resolved ones are already real ranges)
+                if (version.startsWith('workspace:') || version.startsWith('file:') || version.startsWith('catalog:')) {
                     continue;
                 }
 
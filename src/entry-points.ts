@@ -0,0 +1,118 @@
+import fs from 'fs';
+import path from 'path';
+import { PackageInfo } from './monorepo';
+import { ParseResult } from './parser';
+
+// Manifest fields naming the files a package runs from when it is installed
+const ENTRY_FIELDS = ['main', 'module', 'browser', 'bin', 'exports'];
+
+// Build output directories, mapped back to `src/` (or the package root) when the built file is not scanned
+const OUTPUT_DIRS = new Set(['dist', 'build', 'lib', 'out', 'esm', 'cjs']);
+
+// Extensions a relative import may leave out, and the sources a compiled `.js` file may come from
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+const COMPILED_EXTENSIONS = /\.(d\.ts|[cm]?[jt]sx?)$/;
+
+export class EntryPointResolver {
+    /**
+     * Files reachable from the package's entry points through relative imports, each mapped to the
+     * entry it was reached from (relative to the package). Entries pointing at build output are mapped
+     * to their source (`dist/index.js` → `src/index.ts`); earlier fields (`main` first) win.
+     * Returns null when the manifest declares no entry point that matches a scanned file.
+     * @param files Scanned files of the package; only these can be entries or be reached
+     * @param parse Parses a file, so results can be shared with the caller
+     */
+    reachable(pkg: PackageInfo, files: string[], parse: (file: string) => ParseResult): Map<string, string> | null {
+        const relativeFiles = new Map(files.map((file) => [path.relative(pkg.location, file).split(path.sep).join('/'), file]));
+        const entries = [...new Set(entryTargets(pkg).flatMap((target) => sourceFiles(target, relativeFiles)))];
+        if (entries.length === 0) return null;
+
+        const scanned = new Set(files);
+        const reached = new Map<string, string>();
+        for (const entry of entries) {
+            const entryName = path.relative(pkg.location, entry).split(path.sep).join('/');
+            const queue = [entry];
+            while (queue.length > 0) {
+                const file = queue.shift()!;
+                if (reached.has(file)) continue;
+                reached.set(file, entryName);
+                for (const reference of parse(file).references) {
+                    const resolved = resolveRelative(file, reference.specifier, scanned);
+                    if (resolved && !reached.has(resolved)) queue.push(resolved);
+                }
+            }
+        }
+        return reached;
+    }
+}
+
+/** Relative paths (without `./`) named by the entry fields; `exports` and `bin` may name several. */
+function entryTargets(pkg: PackageInfo): string[] {
+    let manifest: Record<string, unknown>;
+    try {
+        manifest = JSON.parse(fs.readFileSync(path.join(pkg.location, 'package.json'), 'utf-8'));
+    } catch {
+        return [];
+    }
+
+    const targets: string[] = [];
+    for (const field of ENTRY_FIELDS) {
+        const value = manifest[field];
+        // `browser` maps module names and files to replacements; only relative replacements are files
+        const strings = field === 'browser' && value && typeof value === 'object'
+            ? leafStrings(value).filter((target) => target.startsWith('.'))
+            : leafStrings(value);
+        targets.push(...strings);
+    }
+    return targets
+        .map((target) => path.posix.normalize(target).replace(/^\.\//, ''))
+        .filter((target) => !target.startsWith('..') && !path.posix.isAbsolute(target));
+}
+
+/** Every string in a field value, across nested condition objects and fallback arrays. */
+function leafStrings(value: unknown): string[] {
+    if (typeof value === 'string') return [value];
+    if (Array.isArray(value)) return value.flatMap(leafStrings);
+    if (value && typeof value === 'object') return Object.values(value).flatMap(leafStrings);
+    return [];
+}
+
+/**
+ * Scanned files an entry target stands for. The target itself is tried first, then the same path with
+ * leading build output directories replaced by `src/` and dropped; `*` subpath patterns match any files.
+ */
+function sourceFiles(target: string, relativeFiles: Map<string, string>): string[] {
+    const segments = target.split('/');
+    let outputDepth = 0;
+    while (outputDepth < segments.length - 1 && OUTPUT_DIRS.has(segments[outputDepth])) outputDepth++;
+    const rest = segments.slice(outputDepth).join('/');
+    const variants = outputDepth > 0 ? [target, `src/${rest}`, rest] : [target];
+
+    for (const variant of variants) {
+        const stem = variant.replace(COMPILED_EXTENSIONS, '');
+        const pattern = escapeRegExp(stem).replace(/\\\*/g, '.*');
+        const matcher = new RegExp(`^${pattern}(/index)?(${SOURCE_EXTENSIONS.map(escapeRegExp).join('|')})?$`);
+        const matches = [...relativeFiles.keys()].filter((file) => file === variant || matcher.test(file));
+        if (matches.length > 0) {
+            return matches.map((file) => relativeFiles.get(file)!);
+        }
+    }
+    return [];
+}
+
+/** The scanned file a relative specifier resolves to, trying extensions, `index` files and `.js` → `.ts`. */
+function resolveRelative(fromFile: string, specifier: string, scanned: Set<string>): string | null {
+    if (!specifier.startsWith('.')) return null;
+    const base = path.resolve(path.dirname(fromFile), specifier);
+    const stem = base.replace(/\.[cm]?jsx?$/, '');
+    const candidates = [
+        base,
+        ...SOURCE_EXTENSIONS.map((extension) => stem + extension),
+        ...SOURCE_EXTENSIONS.map((extension) => path.join(base, `index${extension}`)),
+    ];
+    return candidates.find((candidate) => scanned.has(candidate)) ?? null;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
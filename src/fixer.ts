@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { Catalogs, CATALOG_PROTOCOL, PackageInfo } from './monorepo';
+import { Issue } from './report';
+import { VersionChecker } from './version-checker';
+import { Alignment } from './aligner';
+import {
+    DependencyField,
+    getDependencyField,
+    pruneEmptyFields,
+    readManifest,
+    removeDependency,
+    serializeManifest,
+    setDependency,
+} from './manifest';
+
+export type FixAction =
+    | { type: 'remove'; dependency: string; field: DependencyField }
+    | { type: 'move'; dependency: string; from: DependencyField; to: DependencyField }
+    | { type: 'add'; dependency: string; field: DependencyField; version: string }
+    | { type: 'align'; dependency: string; field: DependencyField; from: string; to: string };
+
+export interface ManifestFix {
+    package: string;
+    manifestPath: string;
+    actions: FixAction[];
+    skipped: { dependency: string; reason: string }[];
+    before: string;
+    after: string;
+}
+
+const REMOVABLE_FIELDS: DependencyField[] = ['dependencies', 'devDependencies', 'optionalDependencies'];
+const ALIGNABLE_FIELDS: DependencyField[] = ['dependencies', 'devDependencies'];
+
+export class ManifestFixer {
+    private rootPkg?: PackageInfo;
+    private packages: PackageInfo[];
+    private versionChecker: VersionChecker;
+    private catalogs: Catalogs;
+
+    constructor(rootDir: string, packages: PackageInfo[], versionChecker: VersionChecker, catalogs: Catalogs = {}) {
+        this.packages = packages;
+        this.rootPkg = packages.find((pkg) => pkg.location === rootDir);
+        this.versionChecker = versionChecker;
+        this.catalogs = catalogs;
+    }
+
+    /**
+     * Plan manifest edits for the unused/missing/wrongType issues reported for a package,
+     * then rewrite ranges to the alignment targets. Returns null when nothing would change.
+     */
+    async plan(pkg: PackageInfo, issues: Issue[], prodImports: Set<string>, alignment?: Alignment): Promise<ManifestFix | null> {
+        const manifestPath = path.join(pkg.location, 'package.json');
+        const manifest = readManifest(manifestPath);
+        const actions: FixAction[] = [];
+        const skipped: ManifestFix['skipped'] = [];
+
+        for (const issue of issues) {
+            if (issue.package !== pkg.name) continue;
+
+            if (issue.type === 'unused') {
+                let removed = false;
+                for (const field of REMOVABLE_FIELDS) {
+                    if (removeDependency(manifest, field, issue.dependency)) {
+                        actions.push({ type: 'remove', dependency: issue.dependency, field });
+                        removed = true;
+                    }
+                }
+                if (!removed) {
+                    // Peer dependencies are a contract with consumers, so they are never removed automatically
+                    skipped.push({ dependency: issue.dependency, reason: 'declared only in peerDependencies' });
+                }
+            } else if (issue.type === 'wrongType' && issue.expected && issue.actual) {
+                const version = getDependencyField(manifest, issue.actual)?.[issue.dependency];
+                if (version === undefined) continue;
+                removeDependency(manifest, issue.actual, issue.dependency);
+                setDependency(manifest, issue.expected, issue.dependency, version);
+                actions.push({ type: 'move', dependency: issue.dependency, from: issue.actual, to: issue.expected });
+            } else if (issue.type === 'missing') {
+                const version = alignment?.targets.get(issue.dependency) ?? await this.resolveVersion(pkg, issue.dependency);
+                if (!version) {
+                    skipped.push({ dependency: issue.dependency, reason: 'no version found in workspaces, root or registry' });
+                    continue;
+                }
+                const field: DependencyField = prodImports.has(issue.dependency) ? 'dependencies' : 'devDependencies';
+                setDependency(manifest, field, issue.dependency, version);
+                actions.push({ type: 'add', dependency: issue.dependency, field, version });
+            }
+        }
+
+        if (alignment) {
+            const fields = alignment.includePeers ? [...ALIGNABLE_FIELDS, 'peerDependencies' as const] : ALIGNABLE_FIELDS;
+            for (const [dependency, version] of alignment.targets) {
+                for (const field of fields) {
+                    const current = getDependencyField(manifest, field)?.[dependency];
+                    if (current === undefined || current === version || isLocalRange(current)) continue;
+                    setDependency(manifest, field, dependency, version);
+                    actions.push({ type: 'align', dependency, field, from: current, to: version });
+                }
+            }
+        }
+
+        if (actions.length === 0 && skipped.length === 0) {
+            return null;
+        }
+
+        pruneEmptyFields(manifest);
+
+        return {
+            package: pkg.name,
+            manifestPath,
+            actions,
+            skipped,
+            before: manifest.original,
+            after: serializeManifest(manifest),
+        };
+    }
+
+    apply(fix: ManifestFix): void {
+        if (fix.before === fix.after) return;
+        if (fs.readFileSync(fix.manifestPath, 'utf-8') !== fix.before) {
+            throw new Error(`${fix.manifestPath} changed while planning fixes`);
+        }
+        fs.writeFileSync(fix.manifestPath, fix.after, 'utf-8');
+    }
+
+    /**
+     * Pick a range for a dependency being added: internal packages use the workspace protocol,
+     * cataloged dependencies the catalog protocol, then the root manifest, then any sibling
+     * workspace, and finally the latest registry version.
+     */
+    private async resolveVersion(pkg: PackageInfo, dependency: string): Promise<string | null> {
+        if (this.packages.some((other) => other.name === dependency && other !== pkg)) {
+            return 'workspace:*';
+        }
+
+        if (this.catalogs.default?.[dependency]) {
+            return CATALOG_PROTOCOL;
+        }
+        const namedCatalog = Object.keys(this.catalogs).sort().find((name) => this.catalogs[name][dependency]);
+        if (namedCatalog) {
+            return `${CATALOG_PROTOCOL}${namedCatalog}`;
+        }
+
+        const declared = (other: PackageInfo): string | undefined =>
+            other.dependencies[dependency] ?? other.devDependencies[dependency] ?? other.optionalDependencies[dependency];
+
+        const fromRoot = this.rootPkg && this.rootPkg !== pkg ? declared(this.rootPkg) : undefined;
+        if (fromRoot) return fromRoot;
+
+        for (const other of this.packages) {
+            if (other === pkg) continue;
+            const version = declared(other);
+            if (version) return version;
+        }
+
+        const latest = await this.versionChecker.getLatestVersion(dependency);
+        return latest ? `^${latest}` : null;
+    }
+}
+
+export function describeFixAction(action: FixAction): string {
+    switch (action.type) {
+        case 'remove':
+            return `remove ${action.dependency} from ${action.field}`;
+        case 'move':
+            return `move ${action.dependency} from ${action.from} to ${action.to}`;
+        case 'add':
+            return `add ${action.dependency}@${action.version} to ${action.field}`;
+        case 'align':
+            return `align ${action.dependency} in ${action.field} from ${action.from} to ${action.to}`;
+    }
+}
+
+// Local ranges never take part in a mismatch, and catalog references are aligned in the catalog itself
+function isLocalRange(version: string): boolean {
+    return version.startsWith('workspace:') || version.startsWith('file:') || version.startsWith(CATALOG_PROTOCOL);
+}
@@ -0,0 +1,92 @@
+import { EdgeKind, GraphEdge, GraphResult } from './graph';
+import { toReportPath } from './report';
+
+export type GraphFormat = 'dot' | 'mermaid' | 'json';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['dot', 'mermaid', 'json'];
+
+export interface GraphJson {
+    root: string;
+    /** Adjacency list keyed by package name */
+    nodes: Record<string, {
+        /** Workspace directory relative to the root; absent for external packages */
+        path?: string;
+        external: boolean;
+        dependencies: {
+            name: string;
+            kind: EdgeKind;
+            declared: boolean;
+            imported: boolean;
+        }[];
+    }>;
+}
+
+export function renderGraph(result: GraphResult, format: GraphFormat): string {
+    switch (format) {
+        case 'dot':
+            return renderDot(result);
+        case 'mermaid':
+            return renderMermaid(result);
+        case 'json':
+            return JSON.stringify(buildGraphJson(result), null, 2);
+    }
+}
+
+export function buildGraphJson(result: GraphResult): GraphJson {
+    const nodes: GraphJson['nodes'] = {};
+    for (const node of result.nodes) {
+        nodes[node.name] = {
+            path: node.location ? toReportPath(result.root, node.location) || '.' : undefined,
+            external: node.external,
+            dependencies: result.edges
+                .filter((edge) => edge.from === node.name)
+                .map((edge) => ({ name: edge.to, kind: edge.kind, declared: edge.declared, imported: edge.imported })),
+        };
+    }
+    return { root: result.root, nodes };
+}
+
+// prod edges are solid, dev dashed and peer dotted; imports missing from the manifest are red
+function renderDot(result: GraphResult): string {
+    const quote = (value: string) => `"${value.replace(/"/g, '\\"')}"`;
+    const lines = ['digraph monodep {', '    rankdir=LR;', '    node [shape=box];'];
+    for (const node of result.nodes) {
+        lines.push(`    ${quote(node.name)}${node.external ? ' [style=dashed]' : ''};`);
+    }
+    for (const edge of result.edges) {
+        const attributes: string[] = [];
+        if (edge.kind !== 'prod') {
+            attributes.push(`style=${edge.kind === 'dev' ? 'dashed' : 'dotted'}`, `label=${quote(edge.kind)}`);
+        }
+        if (!edge.declared) {
+            attributes.push('color=red');
+        }
+        const suffix = attributes.length > 0 ? ` [${attributes.join(', ')}]` : '';
+        lines.push(`    ${quote(edge.from)} -> ${quote(edge.to)}${suffix};`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+}
+
+// Mermaid ids cannot contain "@" or "/", so nodes get positional ids and the name as label
+function renderMermaid(result: GraphResult): string {
+    const ids = new Map(result.nodes.map((node, index) => [node.name, `n${index}`]));
+    const label = (name: string) => `"${name.replace(/"/g, '#quot;')}"`;
+    const lines = ['flowchart LR'];
+    for (const node of result.nodes) {
+        const id = ids.get(node.name);
+        lines.push(node.external ? `    ${id}([${label(node.name)}])` : `    ${id}[${label(node.name)}]`);
+    }
+    for (const edge of result.edges) {
+        lines.push(`    ${ids.get(edge.from)} ${mermaidArrow(edge)} ${ids.get(edge.to)}`);
+    }
+    return lines.join('\n');
+}
+
+function mermaidArrow(edge: GraphEdge): string {
+    const text = edge.declared ? edge.kind : `${edge.kind}, undeclared`;
+    if (edge.kind === 'dev') {
+        return `-. ${text} .->`;
+    }
+    return edge.kind === 'prod' && edge.declared ? '-->' : `-->|${text}|`;
+}
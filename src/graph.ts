@@ -0,0 +1,322 @@
+import path from 'path';
+import { MonorepoManager, PackageInfo } from './monorepo';
+import { resolveWorkspaceSettings } from './workspace-settings';
+import { Analyzer } from './analyzer';
+import { ConfigLoader } from './config';
+import { PluginLoader, configDetectors } from './plugins';
+
+/**
+ * `prod`: dependencies/optionalDependencies, or an undeclared import from production code.
+ * `peer`: peerDependencies. `dev`: devDependencies, or an undeclared import from dev files.
+ */
+export type EdgeKind = 'prod' | 'dev' | 'peer';
+
+export const EDGE_KINDS: EdgeKind[] = ['prod', 'dev', 'peer'];
+
+/** `dev` when a cycle only closes through dev edges */
+export type CycleKind = 'prod' | 'dev';
+
+/** For a focused package: `upstream` follows its dependencies, `downstream` its dependents */
+export type GraphDirection = 'upstream' | 'downstream' | 'both';
+
+export const GRAPH_DIRECTIONS: GraphDirection[] = ['upstream', 'downstream', 'both'];
+
+export interface GraphNode {
+    name: string;
+    /** npm package that is not part of the workspace */
+    external: boolean;
+    /** Workspace directory (absolute); absent for external packages */
+    location?: string;
+}
+
+export interface GraphEdge {
+    from: string;
+    to: string;
+    kind: EdgeKind;
+    declared: boolean;
+    imported: boolean;
+}
+
+export interface DependencyCycle {
+    /** Package names along the cycle, ending with the first one again */
+    path: string[];
+    kind: CycleKind;
+}
+
+export interface GraphOptions {
+    /** Monorepo root; defaults to the current working directory */
+    root?: string;
+    /** Include external (npm) dependencies as nodes */
+    external?: boolean;
+    /** Edge kinds to keep; defaults to all */
+    edges?: EdgeKind[];
+    /** Keep only this package and its closure */
+    focus?: string;
+    /** Closure kept around `focus`; defaults to `both` */
+    direction?: GraphDirection;
+}
+
+export interface GraphResult {
+    root: string;
+    /** Problems found while discovering workspaces (duplicate names, unparsable manifests) */
+    warnings: string[];
+    nodes: GraphNode[];
+    edges: GraphEdge[];
+}
+
+/**
+ * Directed graph of workspace packages. An edge A → B exists when A declares B
+ * in any dependency field or imports it from any file.
+ */
+export class DependencyGraph {
+    readonly nodes: GraphNode[];
+    readonly edges: GraphEdge[];
+    private adjacency = new Map<string, GraphEdge[]>();
+
+    constructor(nodes: GraphNode[], edges: GraphEdge[]) {
+        this.nodes = nodes;
+        this.edges = edges;
+        for (const node of nodes) {
+            this.adjacency.set(node.name, []);
+        }
+        for (const edge of edges) {
+            this.adjacency.get(edge.from)!.push(edge);
+        }
+    }
+
+    /**
+     * Build the graph from manifests and the import sets collected by the analyzer.
+     * External packages are only added as nodes when `includeExternal` is set.
+     */
+    static build(
+        packages: PackageInfo[],
+        prodImports: Map<string, Set<string>>,
+        devImports: Map<string, Set<string>>,
+        includeExternal = false
+    ): DependencyGraph {
+        const sorted = [...packages].sort((a, b) => a.name.localeCompare(b.name));
+        const workspaceNames = new Set(sorted.map((pkg) => pkg.name));
+        const nodes: GraphNode[] = sorted.map((pkg) => ({ name: pkg.name, external: false, location: pkg.location }));
+        const externalNames = new Set<string>();
+        const edges: GraphEdge[] = [];
+
+        for (const pkg of sorted) {
+            const prodDeclared = new Set([...Object.keys(pkg.dependencies), ...Object.keys(pkg.optionalDependencies)]);
+            const peerDeclared = new Set(Object.keys(pkg.peerDependencies));
+            const devDeclared = new Set(Object.keys(pkg.devDependencies));
+            const prodUsed = prodImports.get(pkg.name) || new Set<string>();
+            const devUsed = devImports.get(pkg.name) || new Set<string>();
+
+            const targets = new Set([...prodDeclared, ...peerDeclared, ...devDeclared, ...prodUsed, ...devUsed]);
+            for (const target of [...targets].sort()) {
+                if (target === pkg.name) continue;
+                const external = !workspaceNames.has(target);
+                if (external && !includeExternal) continue;
+                if (external) externalNames.add(target);
+
+                edges.push({
+                    from: pkg.name,
+                    to: target,
+                    kind: prodDeclared.has(target) ? 'prod'
+                        : peerDeclared.has(target) ? 'peer'
+                        : prodUsed.has(target) ? 'prod'
+                        : 'dev',
+                    declared: prodDeclared.has(target) || peerDeclared.has(target) || devDeclared.has(target),
+                    imported: prodUsed.has(target) || devUsed.has(target),
+                });
+            }
+        }
+
+        for (const name of [...externalNames].sort()) {
+            nodes.push({ name, external: true });
+        }
+
+        return new DependencyGraph(nodes, edges);
+    }
+
+    /** Keep only edges of the given kinds; every node is kept. */
+    filter(kinds: EdgeKind[]): DependencyGraph {
+        return new DependencyGraph(this.nodes, this.edges.filter((edge) => kinds.includes(edge.kind)));
+    }
+
+    /** Keep `name` plus everything it reaches (upstream) and/or everything that reaches it (downstream). */
+    focus(name: string, direction: GraphDirection = 'both'): DependencyGraph {
+        const kept = new Set([name]);
+        const walk = (next: (node: string) => string[]) => {
+            const queue = [name];
+            const seen = new Set([name]);
+            while (queue.length > 0) {
+                for (const neighbor of next(queue.shift()!)) {
+                    if (seen.has(neighbor)) continue;
+                    seen.add(neighbor);
+                    kept.add(neighbor);
+                    queue.push(neighbor);
+                }
+            }
+        };
+        if (direction !== 'downstream') {
+            walk((node) => (this.adjacency.get(node) || []).map((edge) => edge.to));
+        }
+        if (direction !== 'upstream') {
+            walk((node) => this.edges.filter((edge) => edge.to === node).map((edge) => edge.from));
+        }
+
+        return new DependencyGraph(
+            this.nodes.filter((node) => kept.has(node.name)),
+            this.edges.filter((edge) => kept.has(edge.from) && kept.has(edge.to))
+        );
+    }
+
+    /**
+     * One cycle per strongly connected component. Components that contain a cycle made only of
+     * prod and peer edges report that cycle as `prod`; the rest need a dev edge to close and are `dev`.
+     */
+    findCycles(): DependencyCycle[] {
+        const cycles: DependencyCycle[] = [];
+        const prodComponents = this.stronglyConnectedComponents(isProdEdge);
+        for (const component of this.stronglyConnectedComponents(() => true)) {
+            // A prod component always lies inside one full component
+            const prodComponent = prodComponents.find((candidate) => component.includes(candidate[0]));
+            if (prodComponent) {
+                cycles.push({ path: this.cyclePath(prodComponent, isProdEdge), kind: 'prod' });
+            } else {
+                cycles.push({ path: this.cyclePath(component, () => true), kind: 'dev' });
+            }
+        }
+        return cycles;
+    }
+
+    /** Tarjan's algorithm; returns only components that form a cycle (size > 1). */
+    private stronglyConnectedComponents(include: (edge: GraphEdge) => boolean): string[][] {
+        const index = new Map<string, number>();
+        const lowLink = new Map<string, number>();
+        const onStack = new Set<string>();
+        const stack: string[] = [];
+        const components: string[][] = [];
+        let counter = 0;
+
+        const visit = (node: string): void => {
+            index.set(node, counter);
+            lowLink.set(node, counter);
+            counter++;
+            stack.push(node);
+            onStack.add(node);
+
+            for (const edge of this.adjacency.get(node) || []) {
+                if (!include(edge)) continue;
+                if (!index.has(edge.to)) {
+                    visit(edge.to);
+                    lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(edge.to)!));
+                } else if (onStack.has(edge.to)) {
+                    lowLink.set(node, Math.min(lowLink.get(node)!, index.get(edge.to)!));
+                }
+            }
+
+            if (lowLink.get(node) === index.get(node)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== node);
+                if (component.length > 1) {
+                    components.push(component.sort());
+                }
+            }
+        };
+
+        for (const node of this.nodes) {
+            if (!index.has(node.name)) visit(node.name);
+        }
+
+        return components.sort((a, b) => a[0].localeCompare(b[0]));
+    }
+
+    /**
+     * Shortest cycle through the alphabetically first member, found with a BFS that stays inside
+     * the component. Starting from a fixed node keeps the reported path (and baseline key) stable.
+     */
+    private cyclePath(component: string[], include: (edge: GraphEdge) => boolean): string[] {
+        const members = new Set(component);
+        const start = component[0];
+        const previous = new Map<string, string>();
+        const queue = [start];
+        const visited = new Set([start]);
+
+        while (queue.length > 0) {
+            const node = queue.shift()!;
+            for (const edge of this.adjacency.get(node) || []) {
+                if (!include(edge) || !members.has(edge.to)) continue;
+                if (edge.to === start) {
+                    const path = [start];
+                    for (let current = node; current !== start; current = previous.get(current)!) {
+                        path.splice(1, 0, current);
+                    }
+                    return [...path, start];
+                }
+                if (!visited.has(edge.to)) {
+                    visited.add(edge.to);
+                    previous.set(edge.to, node);
+                    queue.push(edge.to);
+                }
+            }
+        }
+
+        return [start];
+    }
+}
+
+function isProdEdge(edge: GraphEdge): boolean {
+    return edge.kind !== 'dev';
+}
+
+/**
+ * Discover the workspace packages, collect their imports and return the dependency graph.
+ * Throws on an unknown edge kind, direction or focused package.
+ */
+export async function graph(options: GraphOptions = {}): Promise<GraphResult> {
+    const rootDir = path.resolve(options.root ?? '.');
+    const kinds = options.edges ?? EDGE_KINDS;
+    const direction = options.direction ?? 'both';
+    const unknownKind = kinds.find((kind) => !EDGE_KINDS.includes(kind));
+    if (unknownKind) {
+        throw new Error(`Unknown edge kind "${unknownKind}". Expected one of: ${EDGE_KINDS.join(', ')}`);
+    }
+    if (!GRAPH_DIRECTIONS.includes(direction)) {
+        throw new Error(`Unknown direction "${direction}". Expected one of: ${GRAPH_DIRECTIONS.join(', ')}`);
+    }
+
+    const config = await new ConfigLoader().load(rootDir);
+    const monorepo = new MonorepoManager(rootDir);
+    const packages = await monorepo.getPackages();
+    if (options.focus && !packages.some((pkg) => pkg.name === options.focus)) {
+        throw new Error(`Unknown package "${options.focus}"`);
+    }
+
+    const plugins = await new PluginLoader().load(rootDir, config.plugins);
+    const analyzer = new Analyzer(packages, configDetectors(plugins));
+    const prodImports = new Map<string, Set<string>>();
+    const devImports = new Map<string, Set<string>>();
+    for (const pkg of packages) {
+        // Skipped packages keep the edges from their manifest
+        if (config.skipPackages && config.skipPackages.includes(pkg.name)) {
+            continue;
+        }
+        const result = await analyzer.analyze(pkg, resolveWorkspaceSettings(rootDir, config, pkg, packages));
+        prodImports.set(pkg.name, result.prodImports);
+        devImports.set(pkg.name, result.devImports);
+    }
+
+    let dependencyGraph = DependencyGraph.build(packages, prodImports, devImports, options.external === true).filter(kinds);
+    if (options.focus) {
+        dependencyGraph = dependencyGraph.focus(options.focus, direction);
+    }
+
+    return {
+        root: rootDir,
+        warnings: monorepo.warnings,
+        nodes: dependencyGraph.nodes,
+        edges: dependencyGraph.edges,
+    };
+}
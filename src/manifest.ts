@@ -0,0 +1,185 @@
+import fs from 'fs';
+import { DependencyField } from './monorepo';
+
+export type { DependencyField };
+
+const DEPENDENCY_FIELDS: DependencyField[] = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+/**
+ * A package.json loaded for editing. Formatting details are captured on read
+ * so `serialize` reproduces the original indentation, line endings and trailing newline.
+ */
+export interface EditableManifest {
+    path: string;
+    original: string;
+    json: Record<string, unknown>;
+    indent: string;
+    newline: string;
+    trailingNewline: boolean;
+}
+
+export function readManifest(manifestPath: string): EditableManifest {
+    const original = fs.readFileSync(manifestPath, 'utf-8');
+    const indentMatch = original.match(/^[ \t]+(?=")/m);
+    return {
+        path: manifestPath,
+        original,
+        json: JSON.parse(original),
+        indent: indentMatch ? indentMatch[0] : '  ',
+        newline: original.includes('\r\n') ? '\r\n' : '\n',
+        trailingNewline: /\r?\n$/.test(original),
+    };
+}
+
+export function serializeManifest(manifest: EditableManifest): string {
+    const body = JSON.stringify(manifest.json, null, manifest.indent).replace(/\n/g, manifest.newline);
+    return manifest.trailingNewline ? body + manifest.newline : body;
+}
+
+export function getDependencyField(manifest: EditableManifest, field: DependencyField): Record<string, string> | undefined {
+    const value = manifest.json[field];
+    return value && typeof value === 'object' ? (value as Record<string, string>) : undefined;
+}
+
+/**
+ * Set a dependency range. Existing keys keep their position; new keys are inserted
+ * alphabetically when the field is already sorted, and appended otherwise.
+ */
+export function setDependency(manifest: EditableManifest, field: DependencyField, name: string, version: string): void {
+    const deps = ensureField(manifest, field);
+    if (name in deps) {
+        deps[name] = version;
+        return;
+    }
+
+    const keys = Object.keys(deps);
+    const sorted = keys.every((key, i) => i === 0 || keys[i - 1].localeCompare(key) <= 0);
+    if (!sorted) {
+        deps[name] = version;
+        return;
+    }
+
+    const entries = Object.entries(deps);
+    const index = entries.findIndex(([key]) => key.localeCompare(name) > 0);
+    entries.splice(index === -1 ? entries.length : index, 0, [name, version]);
+    replaceContents(deps, Object.fromEntries(entries));
+}
+
+/**
+ * Remove a dependency. Emptied fields are kept in place until `pruneEmptyFields`
+ * so a later move into the same field does not change key order.
+ */
+export function removeDependency(manifest: EditableManifest, field: DependencyField, name: string): boolean {
+    const deps = getDependencyField(manifest, field);
+    if (!deps || !(name in deps)) {
+        return false;
+    }
+    delete deps[name];
+    return true;
+}
+
+/** Drop dependency fields that were emptied by edits (fields that were already empty are left alone). */
+export function pruneEmptyFields(manifest: EditableManifest): void {
+    const original = JSON.parse(manifest.original) as Record<string, unknown>;
+    for (const field of DEPENDENCY_FIELDS) {
+        const deps = getDependencyField(manifest, field);
+        const originalDeps = original[field] as Record<string, string> | undefined;
+        if (deps && Object.keys(deps).length === 0 && originalDeps && Object.keys(originalDeps).length > 0) {
+            delete manifest.json[field];
+        }
+    }
+}
+
+/**
+ * Create a missing dependency field next to its closest existing sibling
+ * (in the conventional dependencies → devDependencies → peer → optional order).
+ */
+function ensureField(manifest: EditableManifest, field: DependencyField): Record<string, string> {
+    const existing = getDependencyField(manifest, field);
+    if (existing) {
+        return existing;
+    }
+
+    const created: Record<string, string> = {};
+    const entries = Object.entries(manifest.json);
+    const order = DEPENDENCY_FIELDS.indexOf(field);
+    const before = DEPENDENCY_FIELDS.slice(0, order).reverse().find((f) => f in manifest.json);
+    const after = DEPENDENCY_FIELDS.slice(order + 1).find((f) => f in manifest.json);
+
+    let index = entries.length;
+    if (before) {
+        index = entries.findIndex(([key]) => key === before) + 1;
+    } else if (after) {
+        index = entries.findIndex(([key]) => key === after);
+    }
+
+    entries.splice(index, 0, [field, created]);
+    replaceContents(manifest.json, Object.fromEntries(entries));
+    return created;
+}
+
+function replaceContents(target: Record<string, unknown>, source: Record<string, unknown>): void {
+    for (const key of Object.keys(target)) {
+        delete target[key];
+    }
+    Object.assign(target, source);
+}
+
+/**
+ * Line-based diff (LCS) rendered as unified-style hunks with `context` lines around each change.
+ */
+export function diffLines(before: string, after: string, context = 2): string[] {
+    const a = before.split(/\r?\n/);
+    const b = after.split(/\r?\n/);
+
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const ops: { op: ' ' | '-' | '+'; line: string }[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            ops.push({ op: ' ', line: a[i] });
+            i++;
+            j++;
+        } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            ops.push({ op: '-', line: a[i] });
+            i++;
+        } else {
+            ops.push({ op: '+', line: b[j] });
+            j++;
+        }
+    }
+
+    const output: string[] = [];
+    let lastPrinted = -1;
+    ops.forEach((entry, index) => {
+        if (entry.op === ' ') return;
+        const start = Math.max(lastPrinted + 1, index - context);
+        if (lastPrinted !== -1 && start > lastPrinted + 1) {
+            output.push('...');
+        }
+        for (let k = start; k < index; k++) {
+            output.push(`${ops[k].op}${ops[k].line}`);
+        }
+        output.push(`${entry.op}${entry.line}`);
+        lastPrinted = index;
+
+        // Trailing context is emitted lazily when the next change is far away or at the end
+        const nextChange = ops.findIndex((o, n) => n > index && o.op !== ' ');
+        if (nextChange === -1 || nextChange - index > context * 2) {
+            const end = Math.min(ops.length - 1, index + context);
+            for (let k = index + 1; k <= end; k++) {
+                output.push(`${ops[k].op}${ops[k].line}`);
+            }
+            lastPrinted = end;
+        }
+    });
+
+    return output;
+}
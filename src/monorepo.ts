@@ -1,34 +1,78 @@
 import fs from 'fs';
 import path from 'path';
+import ts from 'typescript';
 import { glob } from 'glob';
+import { minimatch } from 'minimatch';
 import yaml from 'js-yaml';
 
 export interface PackageInfo {
     name: string;
     location: string;
+    /** Ranges with `catalog:` references already resolved to the catalog entry */
     dependencies: Record<string, string>;
     devDependencies: Record<string, string>;
     peerDependencies: Record<string, string>;
     optionalDependencies: Record<string, string>;
+    /** Dependencies declared with the catalog protocol, per field, with the original `catalog:<name>` value */
+    catalogReferences: Partial<Record<DependencyField, Record<string, string>>>;
 }
 
+export type DependencyField = 'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies';
+
+/** Catalog name (`default` for the unnamed catalog) → dependency → range */
+export type Catalogs = Record<string, Record<string, string>>;
+
+export const CATALOG_PROTOCOL = 'catalog:';
+
 export class MonorepoManager {
     private rootDir: string;
+    /** Problems found while discovering packages (unparsable manifests, duplicate names) */
+    readonly warnings: string[] = [];
+    /** pnpm (`pnpm-workspace.yaml`) and Bun (`package.json` workspaces) catalogs */
+    readonly catalogs: Catalogs = {};
 
     constructor(rootDir: string) {
         this.rootDir = path.resolve(rootDir);
     }
 
     async getPackages(): Promise<PackageInfo[]> {
-        const workspacePatterns = await this.getWorkspacePatterns();
-        const packageJsonPaths = await glob(
-            workspacePatterns.map((p) => path.join(p, 'package.json')),
+        const workspacePatterns = this.getWorkspacePatterns();
+        const includePatterns = workspacePatterns.filter((p) => !p.startsWith('!'));
+        // Negated patterns (`!packages/legacy/**`) exclude workspaces matched by any other source
+        const excludePatterns = workspacePatterns
+            .filter((p) => p.startsWith('!'))
+            .map((p) => p.slice(1).replace(/^\.\//, '').replace(/\/$/, ''));
+
+        const globbed = await glob(
+            includePatterns.map((p) => path.join(p, 'package.json')),
             {
                 cwd: this.rootDir,
                 ignore: ['**/node_modules/**'],
                 absolute: true,
             }
         );
+        const isExcluded = (relativeDir: string): boolean => excludePatterns.some((pattern) =>
+            minimatch(relativeDir, pattern) || minimatch(`${relativeDir}/package.json`, pattern)
+        );
+
+        const nxProjectFolders = await this.getNxProjectFolders();
+        const projectFolders = [...this.getRushProjectFolders(), ...nxProjectFolders];
+        const discovered = [
+            ...globbed,
+            ...projectFolders
+                .map((folder) => path.join(this.rootDir, folder, 'package.json'))
+                .filter((pkgPath) => fs.existsSync(pkgPath)),
+        ];
+        for (const folder of nxProjectFolders) {
+            if (!fs.existsSync(path.join(this.rootDir, folder, 'package.json')) && !isExcluded(folder)) {
+                this.warnings.push(`Nx project ${folder} has no package.json; its files are checked as part of the enclosing package`);
+            }
+        }
+
+        // Sorted so results (and which duplicate wins) do not depend on file system order
+        const packageJsonPaths = [...new Set(discovered)].sort().filter((pkgPath) =>
+            !isExcluded(path.relative(this.rootDir, path.dirname(pkgPath)).split(path.sep).join('/'))
+        );
 
         // Also include root package.json
         const rootPackageJsonPath = path.join(this.rootDir, 'package.json');
@@ -37,60 +81,196 @@ export class MonorepoManager {
         }
 
         const packages: PackageInfo[] = [];
+        const locationsByName = new Map<string, string>();
 
         for (const pkgPath of packageJsonPaths) {
             try {
                 const content = fs.readFileSync(pkgPath, 'utf-8');
                 const json = JSON.parse(content);
+                const name = json.name || path.basename(path.dirname(pkgPath));
+                const location = path.dirname(pkgPath);
+
+                // Packages are keyed by name everywhere else, so a duplicate would silently replace the first one
+                const existing = locationsByName.get(name);
+                if (existing) {
+                    this.warnings.push(
+                        `Duplicate package name "${name}" in ${this.relative(existing)} and ${this.relative(location)}; skipping ${this.relative(location)}`
+                    );
+                    continue;
+                }
+                locationsByName.set(name, location);
+
+                const catalogReferences: PackageInfo['catalogReferences'] = {};
+                const resolve = (field: DependencyField): Record<string, string> => {
+                    const references: Record<string, string> = {};
+                    const resolved = this.resolveCatalogReferences(name, json[field] || {}, references);
+                    if (Object.keys(references).length > 0) {
+                        catalogReferences[field] = references;
+                    }
+                    return resolved;
+                };
                 packages.push({
-                    name: json.name || path.basename(path.dirname(pkgPath)),
-                    location: path.dirname(pkgPath),
-                    dependencies: json.dependencies || {},
-                    devDependencies: json.devDependencies || {},
-                    peerDependencies: json.peerDependencies || {},
-                    optionalDependencies: json.optionalDependencies || {},
+                    name,
+                    location,
+                    dependencies: resolve('dependencies'),
+                    devDependencies: resolve('devDependencies'),
+                    peerDependencies: resolve('peerDependencies'),
+                    optionalDependencies: resolve('optionalDependencies'),
+                    catalogReferences,
                 });
             } catch (e) {
-                console.warn(`Failed to parse ${pkgPath}:`, e);
+                this.warnings.push(`Failed to parse ${this.relative(pkgPath)}: ${e instanceof Error ? e.message : e}`);
             }
         }
 
         return packages;
     }
 
-    private async getWorkspacePatterns(): Promise<string[]> {
+    /**
+     * Workspace globs from pnpm-workspace.yaml, package.json `workspaces` (npm, Yarn, Bun)
+     * and lerna.json. Sources are merged; negated patterns are kept with their `!` prefix.
+     */
+    private getWorkspacePatterns(): string[] {
+        const patterns: string[] = [];
+
         // Check pnpm-workspace.yaml
         const pnpmWorkspacePath = path.join(this.rootDir, 'pnpm-workspace.yaml');
         if (fs.existsSync(pnpmWorkspacePath)) {
             try {
                 const content = fs.readFileSync(pnpmWorkspacePath, 'utf-8');
-                const doc = yaml.load(content) as { packages?: string[] };
+                const doc = yaml.load(content) as { packages?: string[]; catalog?: unknown; catalogs?: unknown };
                 if (doc && Array.isArray(doc.packages)) {
-                    return doc.packages;
+                    patterns.push(...doc.packages);
                 }
+                this.addCatalogs(doc);
             } catch (e) {
-                console.warn('Failed to parse pnpm-workspace.yaml:', e);
+                this.warnings.push(`Failed to parse pnpm-workspace.yaml: ${e instanceof Error ? e.message : e}`);
             }
         }
 
         // Check package.json workspaces
-        const packageJsonPath = path.join(this.rootDir, 'package.json');
-        if (fs.existsSync(packageJsonPath)) {
-            try {
-                const content = fs.readFileSync(packageJsonPath, 'utf-8');
-                const json = JSON.parse(content);
-                if (Array.isArray(json.workspaces)) {
-                    return json.workspaces;
-                } else if (json.workspaces && Array.isArray(json.workspaces.packages)) {
-                    // Handle yarn object format { packages: [] }
-                    return json.workspaces.packages;
-                }
-            } catch (e) {
-                console.warn('Failed to parse package.json:', e);
+        const workspaces = this.readJson('package.json')?.workspaces;
+        if (Array.isArray(workspaces)) {
+            patterns.push(...strings(workspaces));
+        } else if (workspaces && typeof workspaces === 'object') {
+            // Handle yarn/bun object format { packages: [] }
+            const objectFormat = workspaces as { packages?: unknown; catalog?: unknown; catalogs?: unknown };
+            if (Array.isArray(objectFormat.packages)) {
+                patterns.push(...strings(objectFormat.packages));
+            }
+            this.addCatalogs(objectFormat);
+        }
+
+        // Check lerna.json (Lerna falls back to packages/* when `packages` is omitted)
+        const lernaJson = this.readJson('lerna.json');
+        if (lernaJson) {
+            if (Array.isArray(lernaJson.packages)) {
+                patterns.push(...strings(lernaJson.packages));
+            } else if (lernaJson.useWorkspaces !== true) {
+                patterns.push('packages/*');
             }
         }
 
         // Default to current directory if no workspaces found (single package mode)
-        return ['.'];
+        return patterns.length > 0 ? [...new Set(patterns)] : ['.'];
     }
+
+    /** Merge `catalog` (the default catalog) and named `catalogs` from a workspace config. */
+    private addCatalogs(source: { catalog?: unknown; catalogs?: unknown } | null | undefined): void {
+        if (!source) return;
+        const add = (name: string, entries: unknown) => {
+            if (entries && typeof entries === 'object') {
+                this.catalogs[name] = { ...this.catalogs[name], ...(entries as Record<string, string>) };
+            }
+        };
+        add('default', source.catalog);
+        if (source.catalogs && typeof source.catalogs === 'object') {
+            for (const [name, entries] of Object.entries(source.catalogs)) {
+                add(name, entries);
+            }
+        }
+    }
+
+    /**
+     * Replace `catalog:` / `catalog:<name>` ranges with the catalog entry so every checker sees a real range.
+     * References without a matching entry are kept as-is and reported as warnings.
+     */
+    private resolveCatalogReferences(
+        packageName: string,
+        deps: Record<string, string>,
+        references: Record<string, string>
+    ): Record<string, string> {
+        const resolved: Record<string, string> = {};
+        for (const [dep, range] of Object.entries(deps)) {
+            if (!range.startsWith(CATALOG_PROTOCOL)) {
+                resolved[dep] = range;
+                continue;
+            }
+            const catalogName = range.slice(CATALOG_PROTOCOL.length) || 'default';
+            const entry = this.catalogs[catalogName]?.[dep];
+            if (entry) {
+                references[dep] = range;
+                resolved[dep] = entry;
+            } else {
+                this.warnings.push(`${packageName} references ${dep}@${range}, but catalog "${catalogName}" has no entry for it`);
+                resolved[dep] = range;
+            }
+        }
+        return resolved;
+    }
+
+    /** Project folders listed in rush.json (`projects[].projectFolder`). */
+    private getRushProjectFolders(): string[] {
+        const projects = this.readJson('rush.json')?.projects;
+        if (!Array.isArray(projects)) {
+            return [];
+        }
+        return strings(projects.map((project: unknown) =>
+            project && typeof project === 'object' ? (project as { projectFolder?: unknown }).projectFolder : undefined
+        ));
+    }
+
+    /**
+     * Folders with an Nx project.json. Only those that also have a package.json become packages;
+     * the others share the enclosing manifest (usually the root's), are scanned as part of it and reported as warnings.
+     */
+    private async getNxProjectFolders(): Promise<string[]> {
+        if (!fs.existsSync(path.join(this.rootDir, 'nx.json'))) {
+            return [];
+        }
+        const projectFiles = await glob('**/project.json', {
+            cwd: this.rootDir,
+            ignore: ['**/node_modules/**'],
+        });
+        return projectFiles.map((file) => path.dirname(file)).filter((folder) => folder !== '.');
+    }
+
+    /** Read a JSON (or JSONC, as used by rush.json) file relative to the root. */
+    private readJson(fileName: string): Record<string, unknown> | null {
+        const filePath = path.join(this.rootDir, fileName);
+        if (!fs.existsSync(filePath)) {
+            return null;
+        }
+        const { config, error } = ts.parseConfigFileTextToJson(filePath, fs.readFileSync(filePath, 'utf-8'));
+        if (error) {
+            this.warnings.push(`Failed to parse ${fileName}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+            return null;
+        }
+        return config && typeof config === 'object' && !Array.isArray(config) ? config : null;
+    }
+
+    private relative(location: string): string {
+        return path.relative(this.rootDir, location).split(path.sep).join('/') || '.';
+    }
+}
+
+function strings(values: unknown[]): string[] {
+    return values.filter((value): value is string => typeof value === 'string');
+}
+
+/** Globs for workspaces nested inside `pkg`, so their files are not scanned as part of it. */
+export function nestedPackagePatterns(pkg: PackageInfo, packages: PackageInfo[]): string[] {
+    return packages
+        .filter((other) => other.location !== pkg.location && other.location.startsWith(pkg.location))
+        .map((nested) => path.relative(pkg.location, nested.location) + '/**');
 }
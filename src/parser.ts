@@ -1,27 +1,80 @@
 import ts from 'typescript';
 import fs from 'fs';
+import { ScriptLang, extractScript, isSfcFile } from './sfc';
+import { isStylesheetFile, parseStylesheet } from './stylesheet';
+
+export interface ImportReference {
+    specifier: string;
+    line: number;
+    isTypeOnly: boolean;
+}
 
 export interface ParseResult {
     valueImports: string[];
     typeOnlyImports: string[];
-    dynamicCandidates: {
-        expression: string;
-        line: number;
-    }[];
+    references: ImportReference[];
+    /** `/// <reference types="…" />` names, which may refer to a package or its `@types` package */
+    typeReferences: ImportReference[];
+    dynamicCandidates: DynamicCandidate[];
 }
 
+export interface DynamicCandidate {
+    expression: string;
+    line: number;
+    /** Static text before the dynamic part of a template literal or `+` concatenation */
+    prefix?: string;
+    /** Static text after the dynamic part */
+    suffix?: string;
+}
+
+// Calls whose first argument names a module: resolution helpers and Jest/Vitest module mocks
+const MODULE_ARGUMENT_CALLS = new Set([
+    'require.resolve',
+    'import.meta.resolve',
+    'jest.mock', 'jest.doMock', 'jest.unmock', 'jest.dontMock', 'jest.requireActual', 'jest.requireMock', 'jest.createMockFromModule',
+    'vi.mock', 'vi.doMock', 'vi.unmock', 'vi.doUnmock', 'vi.importActual', 'vi.importMock',
+]);
+
+const SCRIPT_KINDS: Record<ScriptLang, ts.ScriptKind> = {
+    ts: ts.ScriptKind.TS,
+    tsx: ts.ScriptKind.TSX,
+    js: ts.ScriptKind.JS,
+    jsx: ts.ScriptKind.JSX,
+};
+
 export class Parser {
     parse(filePath: string): ParseResult {
         try {
-            const content = fs.readFileSync(filePath, 'utf-8');
-            const source = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+            if (isStylesheetFile(filePath)) {
+                const references = parseStylesheet(filePath, fs.readFileSync(filePath, 'utf-8'));
+                return {
+                    valueImports: [...new Set(references.map((reference) => reference.specifier))],
+                    typeOnlyImports: [],
+                    references,
+                    typeReferences: [],
+                    dynamicCandidates: [],
+                };
+            }
+
+            const source = this.createSourceFile(filePath, fs.readFileSync(filePath, 'utf-8'));
+            // Declaration files never run, so everything they reference is type-only
+            const isDeclarationFile = source.isDeclarationFile;
 
             const valueImports = new Set<string>();
             const typeOnlyImports = new Set<string>();
+            const references: ImportReference[] = [];
             const dynamicCandidates: ParseResult['dynamicCandidates'] = [];
+            const typeReferences = source.typeReferenceDirectives.map((directive) => ({
+                specifier: directive.fileName,
+                line: source.getLineAndCharacterOfPosition(directive.pos).line + 1,
+                isTypeOnly: true,
+            }));
 
-            const recordImport = (moduleName: string, isTypeOnly: boolean) => {
+            const recordImport = (moduleName: string, isTypeOnly: boolean, node: ts.Node) => {
                 if (!moduleName) return;
+                isTypeOnly ||= isDeclarationFile;
+                const line = source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+                references.push({ specifier: moduleName, line, isTypeOnly });
                 if (isTypeOnly) {
                     typeOnlyImports.add(moduleName);
                 } else {
@@ -41,7 +94,7 @@ export class Parser {
 
                     // If the entire import clause is marked as type-only, treat as type-only
                     if (clause?.isTypeOnly) {
-                        recordImport(moduleName, true);
+                        recordImport(moduleName, true, node);
                         return;
                     }
 
@@ -52,21 +105,31 @@ export class Parser {
 
                         // Default import or any value import makes the whole import runtime-relevant
                         if (clause.name || !allTypeOnly) {
-                            recordImport(moduleName, false);
+                            recordImport(moduleName, false, node);
                         } else {
-                            recordImport(moduleName, true);
+                            recordImport(moduleName, true, node);
                         }
                         return;
                     }
 
                     // Namespace or default import → runtime
-                    recordImport(moduleName, false);
+                    recordImport(moduleName, false, node);
+                    return;
+                }
+
+                // import foo = require('foo') / import type foo = require('foo')
+                if (
+                    ts.isImportEqualsDeclaration(node) &&
+                    ts.isExternalModuleReference(node.moduleReference) &&
+                    isStringLiteral(node.moduleReference.expression)
+                ) {
+                    recordImport(node.moduleReference.expression.text, node.isTypeOnly, node);
                     return;
                 }
 
                 // export * from 'foo' / export { x } from 'foo'
                 if (ts.isExportDeclaration(node) && node.moduleSpecifier && isStringLiteral(node.moduleSpecifier)) {
-                    recordImport(node.moduleSpecifier.text, false);
+                    recordImport(node.moduleSpecifier.text, false, node);
                     return;
                 }
 
@@ -74,17 +137,28 @@ export class Parser {
                 if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
                     const arg = node.arguments[0];
                     if (arg && isStringLiteral(arg)) {
-                        recordImport(arg.text, false);
+                        recordImport(arg.text, false, node);
                     } else if (arg) {
                         const line = source.getLineAndCharacterOfPosition(arg.getStart(source)).line + 1;
                         dynamicCandidates.push({
                             expression: arg.getText(source),
                             line,
+                            ...staticPattern(arg),
                         });
                     }
                     return;
                 }
 
+                // require.resolve('foo'), import.meta.resolve('foo'), jest.mock('foo'), vi.mock('foo')
+                if (ts.isCallExpression(node) && MODULE_ARGUMENT_CALLS.has(node.expression.getText(source))) {
+                    const [arg, , options] = node.arguments;
+                    // jest.mock('name', factory, { virtual: true }) mocks a module that does not exist
+                    const isVirtual = options && /\bvirtual\s*:\s*true\b/.test(options.getText(source));
+                    if (arg && isStringLiteral(arg) && !isVirtual) {
+                        recordImport(arg.text, false, node);
+                    }
+                }
+
                 // require('foo')
                 if (ts.isCallExpression(node)) {
                     if (
@@ -94,12 +168,13 @@ export class Parser {
                     ) {
                         const arg = node.arguments[0];
                         if (isStringLiteral(arg)) {
-                            recordImport(arg.text, false);
+                            recordImport(arg.text, false, node);
                         } else {
                             const line = source.getLineAndCharacterOfPosition(arg.getStart(source)).line + 1;
                             dynamicCandidates.push({
                                 expression: arg.getText(source),
                                 line,
+                                ...staticPattern(arg),
                             });
                         }
                     }
@@ -113,11 +188,53 @@ export class Parser {
             return {
                 valueImports: [...valueImports],
                 typeOnlyImports: [...typeOnlyImports],
+                references,
+                typeReferences,
                 dynamicCandidates,
             };
         } catch (e) {
             console.warn(`Failed to parse ${filePath}:`, e);
-            return { valueImports: [], typeOnlyImports: [], dynamicCandidates: [] };
+            return { valueImports: [], typeOnlyImports: [], references: [], typeReferences: [], dynamicCandidates: [] };
         }
     }
+
+    /** Vue, Svelte and Astro files are parsed as their script blocks, kept at their original lines. */
+    private createSourceFile(filePath: string, content: string): ts.SourceFile {
+        if (!isSfcFile(filePath)) {
+            return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+        }
+        const script = extractScript(filePath, content);
+        return ts.createSourceFile(filePath, script.content, ts.ScriptTarget.Latest, true, SCRIPT_KINDS[script.lang]);
+    }
+}
+
+/**
+ * Static prefix and suffix of `` `@org/plugin-${name}` `` or `'@org/plugin-' + name`.
+ * Returns nothing when the specifier has no static text at either end.
+ */
+function staticPattern(node: ts.Expression): { prefix: string; suffix: string } | undefined {
+    let prefix = '';
+    let suffix = '';
+    if (ts.isTemplateExpression(node)) {
+        prefix = node.head.text;
+        suffix = node.templateSpans[node.templateSpans.length - 1].literal.text;
+    } else if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+        const parts = concatenationParts(node);
+        const isStatic = (part: ts.Expression) => ts.isStringLiteral(part) || ts.isNoSubstitutionTemplateLiteral(part);
+        const leading = parts.findIndex((part) => !isStatic(part));
+        const trailing = parts.length - 1 - [...parts].reverse().findIndex((part) => !isStatic(part));
+        const text = (part: ts.Expression) => (part as ts.StringLiteral).text;
+        prefix = parts.slice(0, leading === -1 ? parts.length : leading).map(text).join('');
+        suffix = leading === -1 ? '' : parts.slice(trailing + 1).map(text).join('');
+    } else if (ts.isParenthesizedExpression(node)) {
+        return staticPattern(node.expression);
+    }
+    return prefix || suffix ? { prefix, suffix } : undefined;
+}
+
+function concatenationParts(node: ts.Expression): ts.Expression[] {
+    if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+        return [...concatenationParts(node.left), ...concatenationParts(node.right)];
+    }
+    return ts.isParenthesizedExpression(node) ? concatenationParts(node.expression) : [node];
 }
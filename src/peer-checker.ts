@@ -51,7 +51,7 @@ export class PeerChecker {
 
             for (const [peerName, peerRange] of Object.entries(peerDeps)) {
                 // Skip workspace protocol and file paths
-                if (peerRange.startsWith('workspace:') || peerRange.startsWith('file:')) {
+                if (peerRange.startsWith('workspace:') || peerRange.startsWith('file:') || peerRange.startsWith('catalog:')) {
                     continue;
                 }
 
@@ -139,7 +139,7 @@ export class PeerChecker {
 
                 const peerDeps = (manifest.peerDependencies ?? {}) as Record<string, string>;
                 for (const [peerName, peerRange] of Object.entries(peerDeps)) {
-                    if (peerRange.startsWith('workspace:') || peerRange.startsWith('file:')) {
+                    if (peerRange.startsWith('workspace:') || peerRange.startsWith('file:') || peerRange.startsWith('catalog:')) {
                         continue;
                     }
 
@@ -191,7 +191,7 @@ export class PeerChecker {
 
     private cleanVersion(version: string): string | null {
         // Remove common prefixes
-        if (version.startsWith('workspace:') || version.startsWith('file:')) {
+        if (version.startsWith('workspace:') || version.startsWith('file:') || version.startsWith('catalog:')) {
             return null;
         }
         
@@ -0,0 +1,120 @@
+import path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { PackageInfo } from './monorepo';
+import { RuleSeverity } from './config';
+import { Issue, IssueType, PluginIssueType } from './report';
+import { TOOL_CONFIG_DETECTORS, ToolConfigDetector } from './tool-configs';
+
+export interface PluginRule {
+    description?: string;
+    /** Severity when `rules` does not configure this rule; defaults to `error` */
+    severity?: RuleSeverity;
+}
+
+export interface PluginContext {
+    rootDir: string;
+    /** Scanned packages (`skipPackages` and packages outside `--since` / `--filter` excluded) */
+    packages: PackageInfo[];
+    /** Package name → external packages imported by production files */
+    prodImports: Map<string, Set<string>>;
+    /** Package name → external packages imported by dev files (tests, configs, stories) */
+    devImports: Map<string, Set<string>>;
+}
+
+/** Issue returned by a plugin; reported with type `<plugin name>/<rule>`. */
+export interface PluginIssue {
+    rule: string;
+    /** Workspace package name, or `*` for repo-wide findings */
+    package: string;
+    dependency: string;
+    detail?: string;
+    /** Path relative to the root, using `/` separators */
+    file?: string;
+    line?: number;
+}
+
+export interface MonodepPlugin {
+    name: string;
+    rules?: Record<string, PluginRule>;
+    /** Extra tool config detectors; packages they find count as dev usage */
+    configDetectors?: ToolConfigDetector[];
+    check?(context: PluginContext): PluginIssue[] | Promise<PluginIssue[]>;
+}
+
+export class PluginLoader {
+    /**
+     * Resolve the `plugins` config entry. Strings are module specifiers resolved from the root
+     * (relative paths or installed packages) whose default export is a plugin.
+     */
+    async load(rootDir: string, plugins: (string | MonodepPlugin)[] = []): Promise<MonodepPlugin[]> {
+        const loaded: MonodepPlugin[] = [];
+        for (const entry of plugins) {
+            const plugin = typeof entry === 'string' ? await this.import(rootDir, entry) : entry;
+            if (!plugin || typeof plugin.name !== 'string' || (typeof plugin.check !== 'function' && !Array.isArray(plugin.configDetectors))) {
+                const label = typeof entry === 'string' ? entry : JSON.stringify(entry);
+                throw new Error(`Plugin ${label} must export an object with a "name" and a "check" function or "configDetectors"`);
+            }
+            if (plugin.name.includes('/')) {
+                throw new Error(`Plugin name "${plugin.name}" must not contain "/"`);
+            }
+            loaded.push(plugin);
+        }
+        return loaded;
+    }
+
+    private async import(rootDir: string, specifier: string): Promise<MonodepPlugin> {
+        try {
+            const require = createRequire(path.join(rootDir, 'package.json'));
+            const resolved = specifier.startsWith('.') ? path.resolve(rootDir, specifier) : require.resolve(specifier);
+            const mod = await import(pathToFileURL(resolved).href);
+            return mod.default ?? mod;
+        } catch (e) {
+            throw new Error(`Failed to load plugin "${specifier}": ${e instanceof Error ? e.message : e}`);
+        }
+    }
+}
+
+export class PluginChecker {
+    /** Run every plugin and convert its findings into issues of type `<plugin>/<rule>`. */
+    async check(plugins: MonodepPlugin[], context: PluginContext): Promise<Issue[]> {
+        const issues: Issue[] = [];
+        for (const plugin of plugins) {
+            if (!plugin.check) continue;
+            let reported: PluginIssue[];
+            try {
+                reported = await plugin.check(context);
+            } catch (e) {
+                throw new Error(`Plugin "${plugin.name}" failed: ${e instanceof Error ? e.message : e}`);
+            }
+
+            for (const issue of reported || []) {
+                if (!issue || typeof issue.rule !== 'string' || typeof issue.package !== 'string' || typeof issue.dependency !== 'string') {
+                    throw new Error(`Plugin "${plugin.name}" returned an issue without "rule", "package" and "dependency"`);
+                }
+                issues.push({
+                    package: issue.package,
+                    type: pluginIssueType(plugin, issue.rule),
+                    dependency: issue.dependency,
+                    detail: issue.detail,
+                    file: issue.file,
+                    line: issue.line,
+                });
+            }
+        }
+        return issues;
+    }
+}
+
+/** Built-in tool config detectors followed by those contributed by plugins. */
+export function configDetectors(plugins: MonodepPlugin[]): ToolConfigDetector[] {
+    return [...TOOL_CONFIG_DETECTORS, ...plugins.flatMap((plugin) => plugin.configDetectors || [])];
+}
+
+export function pluginIssueType(plugin: MonodepPlugin, rule: string): PluginIssueType {
+    return `${plugin.name}/${rule}`;
+}
+
+export function isPluginIssueType(type: IssueType): type is PluginIssueType {
+    return type.includes('/');
+}
@@ -0,0 +1,195 @@
+import path from 'path';
+import { AlignStrategy, DepcheckConfig, RuleSeverity } from './config';
+import { BaselineEntry } from './baseline';
+import { FixAction } from './fixer';
+import { AlignmentTarget } from './aligner';
+import { CycleKind } from './graph';
+import { TypesProblem } from './types-checker';
+
+export type BuiltinIssueType =
+    | 'unused'
+    | 'missing'
+    | 'wrongType'
+    | 'outdated'
+    | 'mismatch'
+    | 'internal'
+    | 'peer'
+    | 'dynamic'
+    | 'installed-peer'
+    | 'ownership'
+    | 'catalog'
+    | 'cycle'
+    | 'types';
+
+/** Issues reported by plugins are namespaced as `<plugin>/<rule>` */
+export type PluginIssueType = `${string}/${string}`;
+
+export type IssueType = BuiltinIssueType | PluginIssueType;
+
+export type DependencySection = 'dependencies' | 'devDependencies';
+
+export interface Stats {
+    packagesScanned: number;
+    packagesWithIssues: number;
+    /** Issues whose rule is `error`; these decide the exit code */
+    errorCount: number;
+    warningCount: number;
+    unusedCount: number;
+    missingCount: number;
+    wrongTypeCount: number;
+    outdatedCount: number;
+    mismatchCount: number;
+    internalCount: number;
+    peerCount: number;
+    dynamicCount: number;
+    installedPeerCount: number;
+    ownershipCount: number;
+    catalogCount: number;
+    cycleCount: number;
+    typesCount: number;
+    pluginCount: number;
+}
+
+/** A source location behind a missing or wrongType issue. */
+export interface Evidence {
+    /** Path relative to the analyzed root, using `/` separators */
+    file: string;
+    line: number;
+    /** Specifier as written: import path, script binary or config entry */
+    specifier: string;
+    kind: 'value' | 'type';
+    usage: 'prod' | 'dev';
+    /** Why the location counts as prod or dev, e.g. `source file`, `test file`, `type-only import` */
+    reason: string;
+}
+
+/**
+ * A single finding, shared by every output format.
+ * `package` is `*` for repo-wide findings (mismatch, ownership, cycle).
+ */
+export interface Issue {
+    package: string;
+    type: IssueType;
+    dependency: string;
+    severity?: Exclude<RuleSeverity, 'off'>;
+    detail?: string;
+    /** Path relative to the analyzed root, using `/` separators */
+    file?: string;
+    line?: number;
+    expected?: DependencySection;
+    actual?: DependencySection;
+    current?: string;
+    latest?: string;
+    versions?: {
+        version: string;
+        packages: string[];
+    }[];
+    packages?: string[];
+    /** Installed dependency whose peer requirement is unmet (installed-peer only) */
+    via?: string;
+    /** Where the dependency is used (ownership only) */
+    usage?: 'prod' | 'dev' | 'mixed';
+    /** Human-readable suggestion shown in text output (ownership only) */
+    message?: string;
+    /** Catalog reference to use instead of the declared range (catalog only) */
+    catalog?: string;
+    /** `dev` when the cycle only closes through devDependencies or dev-only imports (cycle only) */
+    cycle?: CycleKind;
+    /** Why the `@types` package is reported (types only) */
+    types?: TypesProblem;
+    /** Runtime package the `@types` package belongs to (types only) */
+    runtime?: string;
+    /**
+     * Declared dependencies a template-literal or concatenated specifier could load; empty when its
+     * package prefix matches none (dynamic only, absent when the specifier has no package prefix)
+     */
+    candidates?: string[];
+    /** Locations that caused the issue, up to the requested limit (missing and wrongType only) */
+    evidence?: Evidence[];
+    /** Total number of locations, including those left out of `evidence` */
+    evidenceCount?: number;
+}
+
+/** Bump whenever a field is removed or changes meaning. */
+export const JSON_REPORT_SCHEMA_VERSION = 1;
+
+export interface EffectiveConfig extends DepcheckConfig {
+    onlyExtras: boolean;
+    checkOutdated: boolean;
+    dynamicImportPolicy: 'off' | 'warn' | 'strict';
+    checkInstalledPeers: boolean;
+    ownershipReport: boolean;
+    ownershipPolicy: 'root-shared' | 'workspace-explicit';
+    entryPoints: boolean;
+}
+
+export interface JsonReport {
+    schemaVersion: number;
+    tool: 'monodep';
+    root: string;
+    config: EffectiveConfig;
+    stats: Stats;
+    totalIssues: number;
+    issues: Issue[];
+    /** Present only when workspace discovery reported problems */
+    warnings?: string[];
+    /** Packages checked; present only with --since or --filter */
+    selection?: string[];
+    /** Present only with --align */
+    alignment?: {
+        strategy: AlignStrategy;
+        peerDependencies: boolean;
+        applied: boolean;
+        dependencies: AlignmentTarget[];
+    };
+    /** Present only with --fix, --align or --dry-run */
+    fixes?: {
+        package: string;
+        manifest: string;
+        applied: boolean;
+        actions: FixAction[];
+        skipped: { dependency: string; reason: string }[];
+    }[];
+    /** Present only when a baseline was applied */
+    baseline?: {
+        suppressed: number;
+        stale: BaselineEntry[];
+    };
+}
+
+export function toReportPath(rootDir: string, file: string): string {
+    return path.relative(rootDir, file).split(path.sep).join('/');
+}
+
+export function buildJsonReport(
+    rootDir: string,
+    config: EffectiveConfig,
+    stats: Stats,
+    totalIssues: number,
+    issues: Issue[]
+): JsonReport {
+    return {
+        schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+        tool: 'monodep',
+        root: rootDir,
+        config,
+        stats,
+        totalIssues,
+        issues,
+    };
+}
+
+export function formatCompactIssue(issue: Issue): string {
+    const detail = issue.detail ? ` (${issue.detail})` : '';
+    return `[${issue.type}] ${issue.package}: ${issue.dependency}${detail}`;
+}
+
+/** Indented evidence lines printed below an issue in compact output. */
+export function formatCompactEvidence(issue: Issue): string[] {
+    const lines = (issue.evidence ?? []).map((item) => `  at ${item.file}:${item.line} (${item.reason})`);
+    const hidden = (issue.evidenceCount ?? 0) - (issue.evidence?.length ?? 0);
+    if (hidden > 0) {
+        lines.push(`  ... ${hidden} more`);
+    }
+    return lines;
+}
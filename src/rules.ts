@@ -0,0 +1,85 @@
+import { DepcheckConfig, RuleSeverity, RulesConfig, WorkspaceConfig } from './config';
+import { PackageInfo } from './monorepo';
+import { BuiltinIssueType, IssueType, PluginIssueType } from './report';
+import { matchesWorkspace } from './workspace-settings';
+import { MonodepPlugin } from './plugins';
+
+const SEVERITIES: RuleSeverity[] = ['error', 'warn', 'off'];
+
+export type RuleDefaults = Record<BuiltinIssueType, RuleSeverity> & Partial<Record<PluginIssueType, RuleSeverity>>;
+
+export class RuleResolver {
+    private rootDir: string;
+    private defaults: RuleDefaults;
+    private rules: RulesConfig;
+    private workspaces: [string, WorkspaceConfig][];
+
+    /**
+     * @param defaults Severity for each rule when neither `rules` nor a workspace override sets one.
+     * Plugin rules without a default are `error`.
+     * @param plugins Loaded plugins, whose `<plugin>/<rule>` names may be configured
+     * Throws when `rules` or a workspace override names an unknown rule or an invalid severity.
+     */
+    constructor(rootDir: string, config: DepcheckConfig, defaults: RuleDefaults, plugins: MonodepPlugin[] = []) {
+        this.rootDir = rootDir;
+        this.defaults = defaults;
+        this.rules = config.rules || {};
+        this.workspaces = Object.entries(config.workspaces || {});
+
+        this.validate('rules', this.rules, plugins);
+        for (const [key, workspace] of this.workspaces) {
+            this.validate(`workspaces["${key}"].rules`, workspace.rules || {}, plugins);
+        }
+    }
+
+    /**
+     * Resolve the severity of a rule. Workspace overrides are applied in config order,
+     * so a later matching entry wins. Repo-wide issues (no package) use the top-level rules.
+     */
+    severity(rule: IssueType, pkg?: PackageInfo): RuleSeverity {
+        let severity = this.validSeverity(this.rules[rule]) ?? this.defaults[rule] ?? 'error';
+
+        if (pkg) {
+            for (const [key, workspace] of this.workspaces) {
+                if (!matchesWorkspace(this.rootDir, key, pkg)) continue;
+                severity = this.validSeverity(workspace.rules?.[rule]) ?? severity;
+            }
+        }
+
+        return severity;
+    }
+
+    /** True when the rule is enabled (not `off`) at the top level or in any workspace override. */
+    isEnabledAnywhere(rule: IssueType): boolean {
+        if (this.severity(rule) !== 'off') return true;
+        return this.workspaces.some(([, workspace]) => {
+            const severity = this.validSeverity(workspace.rules?.[rule]);
+            return severity !== undefined && severity !== 'off';
+        });
+    }
+
+    private validate(location: string, rules: RulesConfig, plugins: MonodepPlugin[]): void {
+        for (const [rule, severity] of Object.entries(rules)) {
+            if (!this.isKnownRule(rule, plugins)) {
+                throw new Error(`Unknown rule "${rule}" in ${location}`);
+            }
+            if (this.validSeverity(severity) === undefined) {
+                throw new Error(`Invalid severity ${JSON.stringify(severity)} for "${rule}" in ${location}; expected one of: ${SEVERITIES.join(', ')}`);
+            }
+        }
+    }
+
+    /** Built-in rules, and `<plugin>/<rule>` for a loaded plugin that declares the rule (or declares no rules). */
+    private isKnownRule(rule: string, plugins: MonodepPlugin[]): boolean {
+        const separator = rule.indexOf('/');
+        if (separator === -1) {
+            return rule in this.defaults;
+        }
+        const plugin = plugins.find((candidate) => candidate.name === rule.slice(0, separator));
+        return !!plugin && (!plugin.rules || rule.slice(separator + 1) in plugin.rules);
+    }
+
+    private validSeverity(value: unknown): RuleSeverity | undefined {
+        return SEVERITIES.includes(value as RuleSeverity) ? (value as RuleSeverity) : undefined;
+    }
+}
@@ -0,0 +1,290 @@
+import fs from 'fs';
+import path from 'path';
+import { PackageInfo } from './monorepo';
+import { BuiltinIssueType, Issue, IssueType, toReportPath } from './report';
+import { MonodepPlugin, pluginIssueType } from './plugins';
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+interface SarifRule {
+    id: IssueType;
+    name: string;
+    shortDescription: { text: string };
+    fullDescription: { text: string };
+    helpUri: string;
+}
+
+interface SarifLocation {
+    physicalLocation: {
+        artifactLocation: { uri: string; uriBaseId: string };
+        region?: { startLine: number };
+    };
+}
+
+interface SarifRelatedLocation extends SarifLocation {
+    id: number;
+    message: { text: string };
+}
+
+interface SarifResult {
+    ruleId: IssueType;
+    ruleIndex: number;
+    level: SarifLevel;
+    message: { text: string };
+    locations: SarifLocation[];
+    /** Evidence of missing/wrongType issues */
+    relatedLocations?: SarifRelatedLocation[];
+    partialFingerprints: Record<string, string>;
+}
+
+export interface SarifLog {
+    $schema: string;
+    version: '2.1.0';
+    runs: {
+        tool: {
+            driver: {
+                name: 'monodep';
+                informationUri: string;
+                rules: SarifRule[];
+            };
+        };
+        originalUriBaseIds: Record<string, { uri: string }>;
+        results: SarifResult[];
+    }[];
+}
+
+const INFORMATION_URI = 'https://github.com/ts-76/monodep';
+
+const RULE_DESCRIPTIONS: Record<BuiltinIssueType, { name: string; short: string; full: string }> = {
+    unused: {
+        name: 'UnusedDependency',
+        short: 'Dependency is declared but never imported',
+        full: 'The dependency is listed in package.json but no source file in the workspace imports it.',
+    },
+    missing: {
+        name: 'MissingDependency',
+        short: 'Imported package is not declared',
+        full: 'A source file imports a package that is not listed in the workspace package.json.',
+    },
+    wrongType: {
+        name: 'WrongDependencyType',
+        short: 'Dependency is declared in the wrong section',
+        full: 'The dependency is used only by dev files but listed in dependencies, or used by production code but listed in devDependencies.',
+    },
+    outdated: {
+        name: 'OutdatedDependency',
+        short: 'A newer version is available',
+        full: 'The latest version published to the npm registry is outside the declared range.',
+    },
+    mismatch: {
+        name: 'VersionMismatch',
+        short: 'Dependency version differs across workspaces',
+        full: 'The same dependency is declared with different version ranges in different workspaces.',
+    },
+    internal: {
+        name: 'InternalPackageReference',
+        short: 'Internal workspace package is referenced incorrectly',
+        full: 'An internal workspace package is imported without being declared, or declared without the workspace: protocol.',
+    },
+    peer: {
+        name: 'PeerDependency',
+        short: 'Declared peer dependency is not satisfied',
+        full: 'A peer dependency declared by the workspace is not provided, or is provided with an incompatible version.',
+    },
+    'installed-peer': {
+        name: 'InstalledPeerDependency',
+        short: 'Installed dependency has an unmet peer',
+        full: 'A dependency installed in node_modules declares a peer requirement that the workspace or root does not satisfy.',
+    },
+    dynamic: {
+        name: 'DynamicImport',
+        short: 'Import specifier is not statically analyzable',
+        full: 'A dynamic import() or require() uses a non-literal specifier, so the dependency it loads cannot be verified.',
+    },
+    ownership: {
+        name: 'DependencyOwnership',
+        short: 'Dependency ownership does not follow the configured policy',
+        full: 'The dependency is declared in a location that does not match the configured ownership policy.',
+    },
+    catalog: {
+        name: 'CatalogNotUsed',
+        short: 'Dependency bypasses its catalog entry',
+        full: 'The workspace declares a version range directly although a pnpm/Bun catalog defines this dependency; use the catalog: protocol instead.',
+    },
+    cycle: {
+        name: 'WorkspaceCycle',
+        short: 'Workspace packages depend on each other in a cycle',
+        full: 'Workspace packages form a dependency cycle through declared dependencies or imports. Cycles through production edges break build order and publishing.',
+    },
+    types: {
+        name: 'TypesPackage',
+        short: '@types package is stale, redundant or misplaced',
+        full: 'An @types package whose runtime package is not used or declared, whose runtime package ships its own types, or that is declared in dependencies of a private package.',
+    },
+};
+
+const BUILTIN_RULES: SarifRule[] = (Object.keys(RULE_DESCRIPTIONS) as BuiltinIssueType[]).map((id) => ({
+    id,
+    name: RULE_DESCRIPTIONS[id].name,
+    shortDescription: { text: RULE_DESCRIPTIONS[id].short },
+    fullDescription: { text: RULE_DESCRIPTIONS[id].full },
+    helpUri: `${INFORMATION_URI}#readme`,
+}));
+
+export function buildSarifLog(
+    rootDir: string,
+    packages: PackageInfo[],
+    issues: Issue[],
+    levelFor: (issue: Issue) => SarifLevel,
+    plugins: MonodepPlugin[] = []
+): SarifLog {
+    const rules = [...BUILTIN_RULES, ...pluginRules(plugins, issues)];
+    const ruleIds = rules.map((rule) => rule.id);
+    const locationsByName = new Map(packages.map((pkg) => [pkg.name, pkg.location]));
+    const manifestCache = new Map<string, string[]>();
+
+    const manifestLocation = (packageName: string, dependency?: string): SarifLocation | null => {
+        const location = locationsByName.get(packageName);
+        if (!location) return null;
+        const manifestPath = path.join(location, 'package.json');
+        const line = dependency ? findManifestLine(manifestCache, manifestPath, dependency) : null;
+        return toLocation(rootDir, manifestPath, line);
+    };
+
+    const results: SarifResult[] = issues.map((issue) => {
+        const locations: SarifLocation[] = [];
+        const manifestDependency = issue.via ?? issue.dependency;
+
+        if (issue.file) {
+            locations.push(toLocation(rootDir, path.join(rootDir, issue.file), issue.line ?? null));
+        }
+
+        if (issue.package === '*') {
+            const owners = issue.versions
+                ? issue.versions.flatMap((v) => v.packages)
+                : issue.packages ?? [];
+            for (const owner of owners) {
+                const location = manifestLocation(owner, manifestDependency);
+                if (location) locations.push(location);
+            }
+        } else {
+            const location = manifestLocation(issue.package, issue.type === 'dynamic' ? undefined : manifestDependency);
+            if (location) locations.push(location);
+        }
+
+        return {
+            ruleId: issue.type,
+            ruleIndex: ruleIds.indexOf(issue.type),
+            level: levelFor(issue),
+            message: { text: formatMessage(issue) },
+            locations,
+            ...(issue.evidence?.length ? {
+                relatedLocations: issue.evidence.map((item, index) => ({
+                    id: index,
+                    ...toLocation(rootDir, path.join(rootDir, item.file), item.line),
+                    message: { text: `${item.specifier} (${item.reason})` },
+                })),
+            } : {}),
+            partialFingerprints: {
+                'monodep/v1': `${issue.package}:${issue.type}:${issue.dependency}`,
+            },
+        };
+    });
+
+    return {
+        $schema: SARIF_SCHEMA,
+        version: '2.1.0',
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: 'monodep',
+                        informationUri: INFORMATION_URI,
+                        rules,
+                    },
+                },
+                originalUriBaseIds: {
+                    '%SRCROOT%': { uri: `file://${rootDir.split(path.sep).join('/').replace(/\/?$/, '/')}` },
+                },
+                results,
+            },
+        ],
+    };
+}
+
+/** Rules declared by plugins, plus any undeclared plugin rule that produced a result. */
+function pluginRules(plugins: MonodepPlugin[], issues: Issue[]): SarifRule[] {
+    const descriptions = new Map<IssueType, string>();
+    for (const plugin of plugins) {
+        for (const [rule, meta] of Object.entries(plugin.rules || {})) {
+            descriptions.set(pluginIssueType(plugin, rule), meta.description ?? `Reported by the ${plugin.name} plugin`);
+        }
+    }
+    for (const issue of issues) {
+        if (!(issue.type in RULE_DESCRIPTIONS) && !descriptions.has(issue.type)) {
+            descriptions.set(issue.type, `Reported by the ${issue.type.split('/')[0]} plugin`);
+        }
+    }
+    return [...descriptions].map(([id, description]) => ({
+        id,
+        name: id,
+        shortDescription: { text: description },
+        fullDescription: { text: description },
+        helpUri: `${INFORMATION_URI}#readme`,
+    }));
+}
+
+function toLocation(rootDir: string, file: string, line: number | null): SarifLocation {
+    return {
+        physicalLocation: {
+            artifactLocation: { uri: toReportPath(rootDir, file), uriBaseId: '%SRCROOT%' },
+            ...(line ? { region: { startLine: line } } : {}),
+        },
+    };
+}
+
+function findManifestLine(cache: Map<string, string[]>, manifestPath: string, dependency: string): number | null {
+    let lines = cache.get(manifestPath);
+    if (!lines) {
+        try {
+            lines = fs.readFileSync(manifestPath, 'utf-8').split('\n');
+        } catch {
+            lines = [];
+        }
+        cache.set(manifestPath, lines);
+    }
+
+    const key = `${JSON.stringify(dependency)}:`;
+    const index = lines.findIndex((line) => line.replace(/\s/g, '').startsWith(key));
+    return index === -1 ? null : index + 1;
+}
+
+function formatMessage(issue: Issue): string {
+    const where = issue.package === '*' ? '' : ` in ${issue.package}`;
+    switch (issue.type) {
+        case 'unused':
+            return `${issue.dependency} is declared${where} but never imported.`;
+        case 'missing':
+            return `${issue.dependency} is imported${where} but not declared in package.json.`;
+        case 'wrongType':
+            return `${issue.dependency} should be in ${issue.expected} (found in ${issue.actual})${where}.`;
+        case 'outdated':
+            return `${issue.dependency} ${issue.current} is outdated${where} (latest: ${issue.latest}).`;
+        case 'dynamic':
+            if (issue.candidates?.length === 0) {
+                return `Dynamic import ${issue.dependency}${where} matches no declared package.`;
+            }
+            if (issue.candidates) {
+                return `Dynamic import ${issue.dependency}${where} could load ${issue.candidates.join(', ')}.`;
+            }
+            return `Dynamic import ${issue.dependency}${where} cannot be statically resolved.`;
+        case 'cycle':
+            return `Workspace packages form a ${issue.cycle === 'dev' ? 'dev-only' : 'prod'} dependency cycle: ${issue.dependency}.`;
+        default: {
+            const fallback = issue.type in RULE_DESCRIPTIONS ? RULE_DESCRIPTIONS[issue.type as BuiltinIssueType].short : issue.type;
+            return `${issue.dependency}${where}: ${issue.detail ?? fallback}`;
+        }
+    }
+}
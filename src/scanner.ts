@@ -1,20 +1,46 @@
 import { glob } from 'glob';
+import { minimatch } from 'minimatch';
 import path from 'path';
+import { SFC_EXTENSIONS } from './sfc';
+import { STYLESHEET_EXTENSIONS } from './stylesheet';
 
 export interface ScanResult {
     file: string;
     isDev: boolean;
+    /** Why the file counts as dev or prod code, e.g. `test file` or `__tests__/ directory` */
+    reason: string;
 }
 
+/** Configured globs (relative to the scanned directory) that change how files are classified. */
+export interface FileRules {
+    /** Checked before the built-in rules */
+    devFiles: string[];
+    /** Always prod, even when a dev rule matches */
+    prodFiles: string[];
+    /** False drops the built-in rules */
+    defaultDevFiles: boolean;
+}
+
+const DEFAULT_FILE_RULES: FileRules = { devFiles: [], prodFiles: [], defaultDevFiles: true };
+
+// Files that count as dev code, with the reason reported as evidence; the first match wins
+const DEV_FILE_RULES: [RegExp, string][] = [
+    [/\.(test|spec)\.[cm]?[tj]sx?$/, '$1 file'],
+    [/\.(stories|story)\.[cm]?[tj]sx?$/, 'story file'],
+    [/\/(test|tests|spec|specs|__tests__|__mocks__|__fixtures__|e2e|cypress)\//, '$1/ directory'],
+    [/\/(\.storybook)\//, '$1/ directory'],
+    [/\/(setup|setupTests|testSetup)\.[cm]?[tj]sx?$/, 'test setup file'],
+    [/\.config\.[cm]?[tj]s$/, 'config file'],
+];
+
 export class Scanner {
-    async scan(directory: string, additionalIgnore: string[] = []): Promise<ScanResult[]> {
-        const files = await glob('**/*.{ts,tsx,js,jsx,mjs,cjs}', {
+    async scan(directory: string, additionalIgnore: string[] = [], rules: FileRules = DEFAULT_FILE_RULES): Promise<ScanResult[]> {
+        const files = await glob(`**/*.{ts,tsx,js,jsx,mjs,cjs,${[...SFC_EXTENSIONS, ...STYLESHEET_EXTENSIONS].join(',')}}`, {
             cwd: directory,
             ignore: [
                 '**/node_modules/**',
                 '**/dist/**',
                 '**/build/**',
-                '**/*.d.ts',
                 '**/fixtures/**',
                 '**/coverage/**',
                 ...additionalIgnore,
@@ -22,18 +48,26 @@ export class Scanner {
             absolute: true,
         });
 
-        return files.map((file) => {
+        // Sorted so that evidence and first-usage locations are stable between runs
+        return files.sort().map((file) => {
             // Normalize separators so path checks are OS-independent
             const normalized = file.split(path.sep).join('/');
-
-            const isDev =
-                /\.(test|spec)\.[cm]?[tj]sx?$/.test(normalized) ||
-                /\.(stories|story)\.[cm]?[tj]sx?$/.test(normalized) ||
-                /\/(test|tests|spec|specs|__tests__|__mocks__|__fixtures__|e2e|cypress)\//.test(normalized) ||
-                /\/\.storybook\//.test(normalized) ||
-                /\/(setup|setupTests|testSetup)\.[cm]?[tj]sx?$/.test(normalized) ||
-                /\.config\.[cm]?[tj]s$/.test(normalized);
-            return { file, isDev };
+            const relative = path.relative(directory, file).split(path.sep).join('/');
+            const prodGlob = rules.prodFiles.find((pattern) => minimatch(relative, pattern, { dot: true }));
+            if (prodGlob) {
+                return { file, isDev: false, reason: `prodFiles "${prodGlob}"` };
+            }
+            const devGlob = rules.devFiles.find((pattern) => minimatch(relative, pattern, { dot: true }));
+            if (devGlob) {
+                return { file, isDev: true, reason: `devFiles "${devGlob}"` };
+            }
+            for (const [pattern, reason] of rules.defaultDevFiles ? DEV_FILE_RULES : []) {
+                const match = pattern.exec(normalized);
+                if (match) {
+                    return { file, isDev: true, reason: reason.replace('$1', match[1]) };
+                }
+            }
+            return { file, isDev: false, reason: 'source file' };
         });
     }
 }
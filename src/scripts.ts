@@ -0,0 +1,290 @@
+import fs from 'fs';
+import path from 'path';
+import { PackageInfo } from './monorepo';
+
+export interface ScriptUsage {
+    /** Package providing the binary */
+    dependency: string;
+    /**
+     * Workspace the usage is credited to: the one declaring the providing package (the workspace itself
+     * or an enclosing one such as the root), or the workspace running the script when nobody declares it
+     */
+    provider: string;
+    binary: string;
+    script: string;
+    /** package.json holding the script */
+    file: string;
+    /** Line of the script in package.json */
+    line: number;
+}
+
+// Commands that are not provided by npm packages
+const SYSTEM_COMMANDS = new Set([
+    'node', 'bun', 'deno', 'npm', 'sh', 'bash', 'zsh', 'echo', 'cd', 'rm', 'cp', 'mv', 'mkdir', 'cat', 'touch',
+    'exit', 'true', 'false', 'test', '[', 'export', 'set', 'sleep', 'git', 'sudo', 'env', 'exec', 'docker', 'make',
+    'tee', 'grep', 'sed', 'xargs', 'ls', 'wait', 'chmod', 'ln',
+]);
+
+const ENV_ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+// Binaries that set up the environment and run the command given after them
+const ENV_WRAPPERS = ['cross-env', 'env-cmd', 'dotenv'];
+
+// Package manager commands that run a binary, with the subcommand that does it (none for npx/bunx)
+const EXEC_PREFIXES: Record<string, string[]> = {
+    npx: [],
+    bunx: [],
+    pnpm: ['exec'],
+    npm: ['exec'],
+    yarn: ['exec'],
+    bun: ['x'],
+};
+
+// Binaries whose package has a different name, used when nothing is installed to read `bin` from
+const KNOWN_BINARIES: Record<string, string> = {
+    tsc: 'typescript',
+    tsserver: 'typescript',
+    ng: '@angular/cli',
+    nest: '@nestjs/cli',
+    'svelte-kit': '@sveltejs/kit',
+    changeset: '@changesets/cli',
+    biome: '@biomejs/biome',
+};
+
+export class ScriptAnalyzer {
+    private workspaces: PackageInfo[];
+    private binCache = new Map<string, Record<string, string>>();
+
+    constructor(workspaces: PackageInfo[] = []) {
+        this.workspaces = workspaces;
+    }
+
+    /**
+     * Packages whose binaries are run by the workspace's `scripts`. Binaries are mapped to packages through
+     * the `bin` field of installed manifests; without an install, a binary matching a declared dependency
+     * (or a well-known binary such as `tsc`) is used instead.
+     */
+    analyze(pkg: PackageInfo): ScriptUsage[] {
+        return this.scriptUsages(pkg).filter((usage) => usage.provider === pkg.name);
+    }
+
+    /**
+     * Binaries run by the scripts of nested workspaces that `pkg` provides, since package managers put
+     * an enclosing workspace's binaries on PATH for every workspace script below it.
+     */
+    inherited(pkg: PackageInfo): ScriptUsage[] {
+        return this.workspaces
+            .filter((other) => other !== pkg && this.ancestors(other).includes(pkg))
+            .flatMap((workspace) => this.scriptUsages(workspace))
+            .filter((usage) => usage.provider === pkg.name);
+    }
+
+    private scriptUsages(pkg: PackageInfo): ScriptUsage[] {
+        const manifestPath = path.join(pkg.location, 'package.json');
+        let manifestText: string;
+        let scripts: Record<string, unknown>;
+        try {
+            manifestText = fs.readFileSync(manifestPath, 'utf-8');
+            scripts = JSON.parse(manifestText).scripts || {};
+        } catch {
+            return [];
+        }
+
+        const scriptNames = new Set(Object.keys(scripts));
+        const usages: ScriptUsage[] = [];
+        for (const [script, command] of Object.entries(scripts)) {
+            if (typeof command !== 'string') continue;
+            for (const binary of commandBinaries(command, scriptNames)) {
+                const resolved = this.resolveBinary(binary, pkg);
+                if (!resolved || resolved.dependency === resolved.provider.name) continue;
+                usages.push({
+                    dependency: resolved.dependency,
+                    provider: resolved.provider.name,
+                    binary,
+                    script,
+                    file: manifestPath,
+                    line: lineOf(manifestText, `"${script}":`),
+                });
+            }
+        }
+        return usages;
+    }
+
+    /**
+     * The package a binary comes from and the workspace declaring it: `pkg` itself, else the nearest
+     * ancestor workspace (usually the root) declaring it. Undeclared binaries are attributed to `pkg`.
+     * Returns null when the binary is unknown.
+     */
+    private resolveBinary(binary: string, pkg: PackageInfo): { dependency: string; provider: PackageInfo } | null {
+        const declaredBy = (candidate: PackageInfo) => Object.keys(declaredDependencies(candidate)).find((dependency) => {
+            const bins = this.installedBins(dependency, candidate.location);
+            return bins ? binary in bins : binary === dependency || KNOWN_BINARIES[binary] === dependency;
+        });
+
+        for (const provider of [pkg, ...this.ancestors(pkg)]) {
+            const dependency = declaredBy(provider);
+            if (dependency) return { dependency, provider };
+        }
+        // Undeclared: the package that installed the binary, if any
+        const dependency = this.installedBinaryOwner(binary, pkg.location) ?? KNOWN_BINARIES[binary];
+        return dependency ? { dependency, provider: pkg } : null;
+    }
+
+    /** Binary name → file from the installed manifest's `bin` field; null when the package is not installed. */
+    private installedBins(dependency: string, fromDir: string): Record<string, string> | null {
+        const manifestPath = findUp(fromDir, path.join('node_modules', dependency, 'package.json'));
+        if (!manifestPath) return null;
+        if (!this.binCache.has(manifestPath)) {
+            let bins: Record<string, string> = {};
+            try {
+                const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+                if (typeof manifest.bin === 'string') {
+                    bins = { [manifest.name.replace(/^@[^/]+\//, '')]: manifest.bin };
+                } else if (manifest.bin && typeof manifest.bin === 'object') {
+                    bins = manifest.bin;
+                }
+            } catch {
+                // Treat unreadable manifests as having no binaries
+            }
+            this.binCache.set(manifestPath, bins);
+        }
+        return this.binCache.get(manifestPath)!;
+    }
+
+    /** Package owning `node_modules/.bin/<binary>`, found through the symlink target. */
+    private installedBinaryOwner(binary: string, fromDir: string): string | null {
+        const link = findUp(fromDir, path.join('node_modules', '.bin', binary));
+        if (!link) return null;
+        try {
+            let dir = path.dirname(fs.realpathSync(link));
+            while (dir !== path.dirname(dir)) {
+                const manifestPath = path.join(dir, 'package.json');
+                if (fs.existsSync(manifestPath)) {
+                    return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')).name ?? null;
+                }
+                dir = path.dirname(dir);
+            }
+        } catch {
+            // Broken links do not identify a package
+        }
+        return null;
+    }
+
+    private ancestors(pkg: PackageInfo): PackageInfo[] {
+        return this.workspaces
+            .filter((other) => other !== pkg && !path.relative(other.location, pkg.location).startsWith('..'))
+            .sort((a, b) => b.location.length - a.location.length);
+    }
+}
+
+/**
+ * Binary names invoked by a script command. Handles `&&`/`||`/`;`/`|` chains, env assignments,
+ * `cross-env`, `npx`/`pnpm exec`/`yarn exec`/`bunx`, and `pnpm`/`yarn <bin>` shorthands.
+ * Commands that run other scripts (`npm run x`, `yarn x` for an existing script) are skipped.
+ */
+export function commandBinaries(command: string, scriptNames: Set<string>): string[] {
+    const binaries: string[] = [];
+    for (const segment of splitCommands(command)) {
+        let tokens = segment;
+        while (tokens.length > 0 && ENV_ASSIGNMENT.test(tokens[0])) tokens = tokens.slice(1);
+
+        while (tokens.length > 0) {
+            const [first, second] = tokens;
+            if (first in EXEC_PREFIXES && (EXEC_PREFIXES[first].length === 0 || EXEC_PREFIXES[first].includes(second))) {
+                // npx -p pkg cmd / npx --yes cmd
+                tokens = tokens.slice(EXEC_PREFIXES[first].length === 0 ? 1 : 2);
+                while (tokens[0]?.startsWith('-')) {
+                    tokens = tokens.slice(tokens[0] === '-p' || tokens[0] === '--package' ? 2 : 1);
+                }
+                continue;
+            }
+            if ((first === 'pnpm' || first === 'yarn') && second && !second.startsWith('-') && !scriptNames.has(second) && !PACKAGE_MANAGER_COMMANDS.has(second)) {
+                tokens = tokens.slice(1);
+                continue;
+            }
+            break;
+        }
+
+        const binary = tokens[0];
+        if (!binary || SYSTEM_COMMANDS.has(binary) || PACKAGE_MANAGER_COMMANDS.has(binary) || /^[./~$]/.test(binary) || binary.includes('/')) {
+            continue;
+        }
+        binaries.push(binary);
+
+        if (ENV_WRAPPERS.includes(binary)) {
+            // The wrapped command follows `--`, or the env assignments and options
+            const rest = tokens.slice(1);
+            const separator = rest.indexOf('--');
+            const start = separator !== -1 ? separator + 1 : rest.findIndex((token) => !ENV_ASSIGNMENT.test(token) && !token.startsWith('-'));
+            const wrapped = start === -1 ? [] : rest.slice(start);
+            binaries.push(...commandBinaries(wrapped.map(quote).join(' '), scriptNames));
+        } else if (binary === 'concurrently') {
+            // Each quoted argument is a command of its own
+            for (const argument of tokens.slice(1).filter((token) => !token.startsWith('-'))) {
+                binaries.push(...commandBinaries(argument, scriptNames));
+            }
+        }
+    }
+    return [...new Set(binaries)];
+}
+
+// Subcommands of pnpm/yarn/npm themselves (not binaries)
+const PACKAGE_MANAGER_COMMANDS = new Set([
+    'pnpm', 'yarn', 'npx', 'run', 'run-script', 'install', 'i', 'add', 'remove', 'test', 'start', 'build', 'dlx', 'create', 'publish',
+    'pack', 'link', 'workspace', 'workspaces', '-r', '--filter', 'recursive', 'why', 'up', 'upgrade', 'version', 'init',
+]);
+
+/** Split on unquoted `&&`, `||`, `;`, `|` and `&`, and tokenize each command (quotes removed). */
+function splitCommands(command: string): string[][] {
+    const commands: string[][] = [[]];
+    let token = '';
+    let quote: string | null = null;
+    const endToken = () => {
+        if (token) commands[commands.length - 1].push(token);
+        token = '';
+    };
+
+    for (let i = 0; i < command.length; i++) {
+        const char = command[i];
+        if (quote) {
+            if (char === quote) quote = null;
+            else token += char;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (/\s/.test(char)) {
+            endToken();
+        } else if (char === '&' || char === '|' || char === ';') {
+            endToken();
+            if (command[i + 1] === char) i++;
+            commands.push([]);
+        } else {
+            token += char;
+        }
+    }
+    endToken();
+    return commands.filter((tokens) => tokens.length > 0);
+}
+
+function quote(token: string): string {
+    return /\s/.test(token) ? `'${token}'` : token;
+}
+
+function declaredDependencies(pkg: PackageInfo): Record<string, string> {
+    return { ...pkg.dependencies, ...pkg.devDependencies, ...pkg.optionalDependencies, ...pkg.peerDependencies };
+}
+
+function findUp(fromDir: string, relativePath: string): string | null {
+    let dir = fromDir;
+    while (true) {
+        const candidate = path.join(dir, relativePath);
+        if (fs.existsSync(candidate)) return candidate;
+        const parent = path.dirname(dir);
+        if (parent === dir) return null;
+        dir = parent;
+    }
+}
+
+function lineOf(text: string, needle: string): number {
+    const index = text.indexOf(needle);
+    return index === -1 ? 1 : text.slice(0, index).split('\n').length;
+}
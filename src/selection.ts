@@ -0,0 +1,80 @@
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { minimatch } from 'minimatch';
+import { PackageInfo } from './monorepo';
+import { DependencyGraph } from './graph';
+
+export class PackageSelector {
+    private rootDir: string;
+    private packages: PackageInfo[];
+
+    constructor(rootDir: string, packages: PackageInfo[]) {
+        this.rootDir = rootDir;
+        this.packages = packages;
+    }
+
+    /**
+     * Packages owning a file changed since the merge base with `ref` (committed, uncommitted or untracked),
+     * plus every workspace package that depends on them through declared dependencies.
+     */
+    changedSince(ref: string): Set<string> {
+        const changed = new Set<string>();
+        for (const file of this.changedFiles(ref)) {
+            const owner = this.owner(path.join(this.rootDir, file));
+            if (owner) changed.add(owner.name);
+        }
+
+        // Imports are not analyzed yet, so dependents come from manifests only
+        const graph = DependencyGraph.build(this.packages, new Map(), new Map());
+        const selected = new Set<string>();
+        for (const name of changed) {
+            graph.focus(name, 'downstream').nodes.forEach((node) => selected.add(node.name));
+        }
+        return selected;
+    }
+
+    /** Packages whose name or root-relative path matches one of the patterns (exact or glob). */
+    filter(patterns: string[]): Set<string> {
+        const selected = new Set<string>();
+        for (const pkg of this.packages) {
+            const relativeLocation = path.relative(this.rootDir, pkg.location).split(path.sep).join('/') || '.';
+            const matches = patterns.some((pattern) =>
+                pattern === pkg.name ||
+                minimatch(pkg.name, pattern) ||
+                minimatch(relativeLocation, pattern.replace(/^\.\//, '').replace(/\/$/, ''))
+            );
+            if (matches) selected.add(pkg.name);
+        }
+        return selected;
+    }
+
+    /** Deepest package whose directory contains the file. */
+    private owner(file: string): PackageInfo | undefined {
+        let owner: PackageInfo | undefined;
+        for (const pkg of this.packages) {
+            const relative = path.relative(pkg.location, file);
+            if (relative.startsWith('..') || path.isAbsolute(relative)) continue;
+            if (!owner || pkg.location.length > owner.location.length) {
+                owner = pkg;
+            }
+        }
+        return owner;
+    }
+
+    /** Paths relative to the root; renames list both the old and the new path. */
+    private changedFiles(ref: string): string[] {
+        const mergeBase = this.git(['merge-base', ref, 'HEAD'], ref).trim();
+        const diff = this.git(['diff', '--name-only', '--relative', '--no-renames', mergeBase], ref);
+        const untracked = this.git(['ls-files', '--others', '--exclude-standard'], ref);
+        return [...diff.split('\n'), ...untracked.split('\n')].filter(Boolean);
+    }
+
+    private git(args: string[], ref: string): string {
+        try {
+            return execFileSync('git', args, { cwd: this.rootDir, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] });
+        } catch (e) {
+            const stderr = (e as { stderr?: string }).stderr?.trim();
+            throw new Error(`Failed to list changes since "${ref}": ${stderr || (e instanceof Error ? e.message : e)}`);
+        }
+    }
+}
@@ -0,0 +1,73 @@
+import path from 'path';
+
+/** Single-file component formats whose script blocks are scanned for imports */
+export const SFC_EXTENSIONS = ['vue', 'svelte', 'astro'];
+
+export type ScriptLang = 'ts' | 'tsx' | 'js' | 'jsx';
+
+export interface ExtractedScript {
+    /**
+     * The component with everything except script code blanked out, so that
+     * positions (and reported line numbers) match the original file
+     */
+    content: string;
+    lang: ScriptLang;
+}
+
+const SCRIPT_TAG = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+const ASTRO_FRONTMATTER = /^(\s*---\r?\n)([\s\S]*?)\r?\n---/;
+
+export function isSfcFile(filePath: string): boolean {
+    return SFC_EXTENSIONS.includes(path.extname(filePath).slice(1));
+}
+
+/**
+ * Keep the `<script>` / `<script setup>` / `<script context="module">` blocks of a Vue, Svelte or
+ * Astro file and the frontmatter of an Astro file. Inline and non-JavaScript scripts are skipped.
+ */
+export function extractScript(filePath: string, source: string): ExtractedScript {
+    const blocks: { start: number; end: number }[] = [];
+    let lang: ScriptLang = 'js';
+
+    if (filePath.endsWith('.astro')) {
+        const frontmatter = ASTRO_FRONTMATTER.exec(source);
+        if (frontmatter) {
+            const start = frontmatter[1].length;
+            blocks.push({ start, end: start + frontmatter[2].length });
+            lang = 'ts';
+        }
+    }
+
+    for (const match of source.matchAll(SCRIPT_TAG)) {
+        const attributes = match[1];
+        if (/\bsrc\s*=/.test(attributes) || /\bis:inline\b/.test(attributes)) continue;
+        const type = /\btype\s*=\s*["']?([^"'\s>]+)/.exec(attributes)?.[1];
+        if (type && type !== 'module' && !/javascript|typescript/.test(type)) continue;
+
+        const start = match.index! + match[0].indexOf('>') + 1;
+        blocks.push({ start, end: start + match[2].length });
+        lang = mergeLang(lang, /\blang\s*=\s*["']?(tsx|jsx|ts|typescript|js|javascript)\b/.exec(attributes)?.[1]);
+    }
+
+    // Blocks are parsed together, so one TypeScript block (or the Astro frontmatter) makes the whole file TypeScript
+    let content = '';
+    let position = 0;
+    for (const block of blocks.sort((a, b) => a.start - b.start)) {
+        content += blank(source.slice(position, block.start)) + source.slice(block.start, block.end);
+        position = block.end;
+    }
+    content += blank(source.slice(position));
+
+    return { content, lang };
+}
+
+function mergeLang(current: ScriptLang, declared: string | undefined): ScriptLang {
+    const next: ScriptLang = declared === 'typescript' ? 'ts' : declared === 'javascript' || !declared ? 'js' : declared as ScriptLang;
+    const isTs = current.startsWith('ts') || next.startsWith('ts');
+    const isJsx = current.endsWith('x') || next.endsWith('x');
+    return `${isTs ? 'ts' : 'js'}${isJsx ? 'x' : ''}` as ScriptLang;
+}
+
+function blank(text: string): string {
+    return text.replace(/[^\r\n]/g, ' ');
+}
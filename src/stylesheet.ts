@@ -0,0 +1,88 @@
+import fs from 'fs';
+import path from 'path';
+import { ImportReference } from './parser';
+
+/** Stylesheet formats scanned for package references */
+export const STYLESHEET_EXTENSIONS = ['css', 'scss', 'sass', 'less'];
+
+// `@import`, Sass `@use` / `@forward` and Tailwind `@plugin`, with Less import options like `(reference)`
+const AT_RULE = /@(import|use|forward|plugin)\s+(?:\([^)]*\)\s*)?([^;{}\n]+)/g;
+const QUOTED_OR_URL = /url\(\s*(['"]?)([^'")\s]+)\1\s*\)|(['"])([^'"]+)\3/g;
+// Outside at-rules only webpack's `~pkg` prefix marks a package; other url() values are relative files
+const TILDE_URL = /url\(\s*(['"]?)(~[^'")\s]+)\1\s*\)/g;
+
+const LOCAL_EXTENSIONS = ['', '.css', '.scss', '.sass', '.less'];
+
+export function isStylesheetFile(filePath: string): boolean {
+    return STYLESHEET_EXTENSIONS.includes(path.extname(filePath).slice(1));
+}
+
+/**
+ * Bare package references in a stylesheet, as import specifiers with `~` and `pkg:` prefixes removed.
+ * References that resolve to a file next to the stylesheet (Sass partials included) are local and skipped.
+ */
+export function parseStylesheet(filePath: string, content: string): ImportReference[] {
+    const source = stripComments(content, !filePath.endsWith('.css'));
+    const indentedSyntax = filePath.endsWith('.sass');
+    const references: ImportReference[] = [];
+    const lineAt = (index: number) => source.slice(0, index).split('\n').length;
+    const record = (raw: string, index: number) => {
+        const specifier = toPackageSpecifier(filePath, raw);
+        if (specifier) {
+            references.push({ specifier, line: lineAt(index), isTypeOnly: false });
+        }
+    };
+
+    for (const rule of source.matchAll(AT_RULE)) {
+        let values = [...rule[2].matchAll(QUOTED_OR_URL)].map((value) => value[2] ?? value[4]);
+        // The indented syntax also allows unquoted `@import a, b`
+        if (values.length === 0 && indentedSyntax && rule[1] === 'import') {
+            values = rule[2].split(',').map((value) => value.trim()).filter((value) => value && !/\s/.test(value));
+        }
+        // Only `@import` takes a list; `@use 'x' with ($font: 'Inter')` must not pick up the map values
+        for (const value of rule[1] === 'import' ? values : values.slice(0, 1)) {
+            record(value, rule.index!);
+        }
+    }
+
+    for (const url of source.matchAll(TILDE_URL)) {
+        const inAtRule = /@(import|use|forward|plugin)\b[^;{}\n]*$/.test(source.slice(0, url.index));
+        if (!inAtRule) record(url[2], url.index!);
+    }
+
+    return references;
+}
+
+function toPackageSpecifier(filePath: string, raw: string): string | null {
+    const isTilde = raw.startsWith('~');
+    const specifier = raw.replace(/^~/, '').replace(/^pkg:/, '');
+
+    if (specifier.startsWith('.') || specifier.startsWith('/') || specifier.startsWith('#')) return null;
+    if (/^[a-z]+:/i.test(specifier)) return null; // URLs, data: URIs and Sass built-ins (`sass:math`)
+    if (/\$|[#@]\{/.test(specifier)) return null; // Sass/Less variables and interpolation
+    if (!isTilde && isLocalFile(path.dirname(filePath), specifier)) return null;
+    return specifier;
+}
+
+/** Sass and plain CSS `@import 'name'` may refer to a sibling file or partial (`_name.scss`). */
+function isLocalFile(directory: string, specifier: string): boolean {
+    const base = path.resolve(directory, specifier);
+    const partial = path.join(path.dirname(base), `_${path.basename(base)}`);
+    return [base, partial, path.join(base, 'index'), path.join(base, '_index')].some((candidate) =>
+        LOCAL_EXTENSIONS.some((ext) => {
+            const file = candidate + ext;
+            return fs.existsSync(file) && fs.statSync(file).isFile();
+        })
+    );
+}
+
+/** Blank out comments (keeping newlines so line numbers stay accurate). */
+function stripComments(content: string, lineComments: boolean): string {
+    const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+    let result = content.replace(/\/\*[\s\S]*?\*\//g, blank);
+    if (lineComments) {
+        // `//` only starts a comment at line start or after whitespace, so `url(http://…)` survives
+        result = result.replace(/(^|\s)\/\/[^\n]*/g, (match, before: string) => before + blank(match.slice(before.length)));
+    }
+    return result;
+}
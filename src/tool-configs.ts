@@ -0,0 +1,356 @@
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import yaml from 'js-yaml';
+import { PackageInfo } from './monorepo';
+
+/**
+ * Finds packages that a tool's config references by name, such as ESLint plugins or Babel presets.
+ * Configs are read from the workspace's config files and from a package.json key.
+ */
+export interface ToolConfigDetector {
+    /** Tool name, e.g. `eslint` */
+    name: string;
+    /** Config file names in the workspace directory: JS/TS (evaluated statically), JSON or YAML */
+    files: string[];
+    /** package.json key holding the config, e.g. `eslintConfig` */
+    packageJsonKey?: string;
+    /** Import specifiers referenced by a loaded config (bare package names, subpaths allowed) */
+    detect(config: unknown): string[];
+}
+
+export interface ConfigReference {
+    specifier: string;
+    /** Name of the detector that found it */
+    tool: string;
+    /** The config file, or the workspace's package.json */
+    file: string;
+    line: number;
+}
+
+export class ToolConfigAnalyzer {
+    private detectors: ToolConfigDetector[];
+
+    constructor(detectors: ToolConfigDetector[] = TOOL_CONFIG_DETECTORS) {
+        this.detectors = detectors;
+    }
+
+    /** Package specifiers referenced from the tool configs of one workspace. */
+    analyze(pkg: PackageInfo): ConfigReference[] {
+        const references: ConfigReference[] = [];
+        const manifestPath = path.join(pkg.location, 'package.json');
+        let manifest: Record<string, unknown> = {};
+        try {
+            manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+        } catch {
+            // Unreadable manifests are reported during workspace discovery
+        }
+
+        for (const detector of this.detectors) {
+            const sources: { file: string; config: unknown }[] = [];
+            for (const name of detector.files) {
+                const file = path.join(pkg.location, name);
+                if (fs.existsSync(file) && fs.statSync(file).isFile()) {
+                    sources.push({ file, config: readConfigFile(file) });
+                }
+            }
+            if (detector.packageJsonKey && manifest[detector.packageJsonKey] !== undefined) {
+                sources.push({ file: manifestPath, config: manifest[detector.packageJsonKey] });
+            }
+
+            for (const { file, config } of sources) {
+                if (config === undefined) continue;
+                const text = fs.readFileSync(file, 'utf-8');
+                for (const specifier of new Set(detector.detect(config))) {
+                    if (typeof specifier !== 'string' || !specifier) continue;
+                    references.push({ specifier, tool: detector.name, file, line: lineOf(text, specifier) });
+                }
+            }
+        }
+        return references;
+    }
+}
+
+/**
+ * Load a config file without running it. JSON (with comments) and YAML are parsed; JS and TS
+ * configs are evaluated statically from their default export, so only literal values are seen.
+ */
+function readConfigFile(file: string): unknown {
+    const text = fs.readFileSync(file, 'utf-8');
+    const ext = path.extname(file);
+    try {
+        if (/^\.[cm]?[jt]s$/.test(ext)) {
+            return evaluateModule(file, text);
+        }
+        if (ext === '.yaml' || ext === '.yml') {
+            return yaml.load(text);
+        }
+        // `.json` files and extensionless rc files, which may also be YAML
+        const { config, error } = ts.parseConfigFileTextToJson(file, text);
+        if (!error) return config;
+        return ext === '.json' ? undefined : yaml.load(text);
+    } catch {
+        return undefined;
+    }
+}
+
+/** Value of `module.exports = …`, `export default …` or `export = …`, when it is built from literals. */
+function evaluateModule(file: string, text: string): unknown {
+    const sourceFile = ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true, file.endsWith('ts') ? ts.ScriptKind.TS : ts.ScriptKind.JS);
+    const variables = new Map<string, ts.Expression>();
+    let exported: ts.Expression | undefined;
+
+    for (const statement of sourceFile.statements) {
+        if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+                    variables.set(declaration.name.text, declaration.initializer);
+                }
+            }
+        } else if (ts.isExportAssignment(statement)) {
+            exported = statement.expression;
+        } else if (
+            ts.isExpressionStatement(statement) &&
+            ts.isBinaryExpression(statement.expression) &&
+            statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+            /^(module\.exports|exports\.default)$/.test(statement.expression.left.getText(sourceFile))
+        ) {
+            exported = statement.expression.right;
+        }
+    }
+
+    return exported && staticValue(exported, variables, 0);
+}
+
+function staticValue(node: ts.Expression, variables: Map<string, ts.Expression>, depth: number): unknown {
+    if (depth > 20) return undefined;
+    const evaluate = (expression: ts.Expression) => staticValue(expression, variables, depth + 1);
+
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+    if (ts.isNumericLiteral(node)) return Number(node.text);
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+    if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+        return evaluate(node.expression);
+    }
+    if (ts.isIdentifier(node)) {
+        const initializer = variables.get(node.text);
+        return initializer && evaluate(initializer);
+    }
+    if (ts.isArrayLiteralExpression(node)) {
+        return node.elements.flatMap((element) => {
+            if (ts.isSpreadElement(element)) {
+                const spread = evaluate(element.expression);
+                return Array.isArray(spread) ? spread : [];
+            }
+            return [evaluate(element)];
+        });
+    }
+    if (ts.isObjectLiteralExpression(node)) {
+        const object: Record<string, unknown> = {};
+        for (const property of node.properties) {
+            if (ts.isPropertyAssignment(property)) {
+                const key = ts.isComputedPropertyName(property.name)
+                    ? evaluate(property.name.expression)
+                    : ts.isIdentifier(property.name) || ts.isStringLiteral(property.name) || ts.isNumericLiteral(property.name)
+                        ? property.name.text
+                        : undefined;
+                if (typeof key === 'string') object[key] = evaluate(property.initializer);
+            } else if (ts.isShorthandPropertyAssignment(property)) {
+                object[property.name.text] = evaluate(property.name);
+            } else if (ts.isSpreadAssignment(property)) {
+                const spread = evaluate(property.expression);
+                if (spread && typeof spread === 'object') Object.assign(object, spread);
+            }
+        }
+        return object;
+    }
+    if (ts.isCallExpression(node)) {
+        // `require.resolve('ts-jest')` names a package
+        if (node.expression.getText() === 'require.resolve' && node.arguments.length > 0) {
+            return evaluate(node.arguments[0]);
+        }
+        // Config helpers such as `defineConfig({ … })` return their argument
+        if (node.arguments.length === 1) return evaluate(node.arguments[0]);
+        return undefined;
+    }
+    if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+        // Function configs (`module.exports = (ctx) => ({ … })`): use the returned literal
+        if (!ts.isBlock(node.body)) return evaluate(node.body);
+        const returned = node.body.statements.find(ts.isReturnStatement);
+        return returned?.expression && evaluate(returned.expression);
+    }
+    return undefined;
+}
+
+/**
+ * Expand a short plugin/config name the way ESLint, Babel and Prettier do: `foo` → `<prefix>-foo`,
+ * `@scope` → `@scope/<prefix>`, `@scope/foo` → `@scope/<prefix>-foo`. Full names are kept.
+ */
+export function expandShortName(name: string, prefix: string): string {
+    if (name.startsWith('@')) {
+        const [scope, rest] = name.split(/\/(.*)/);
+        if (!rest) return `${scope}/${prefix}`;
+        return rest.startsWith(prefix) ? name : `${scope}/${prefix}-${rest}`;
+    }
+    return name.startsWith(`${prefix}-`) ? name : `${prefix}-${name}`;
+}
+
+/** Relative paths, absolute paths and `<rootDir>`-style placeholders are local files, not packages. */
+function isPackageName(value: unknown): value is string {
+    return typeof value === 'string' && value !== '' && !/^[./<]/.test(value) && !path.isAbsolute(value);
+}
+
+/** Strings of a list entry or of `[name, options]` entries. */
+function entryNames(value: unknown): string[] {
+    const entries = Array.isArray(value) ? value : value === undefined ? [] : [value];
+    return entries
+        .map((entry) => Array.isArray(entry) ? entry[0] : entry)
+        .filter(isPackageName);
+}
+
+function asObject(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function eslintReferences(value: unknown): string[] {
+    const config = asObject(value);
+    const references: string[] = [];
+    for (const name of entryNames(config.extends)) {
+        if (name.startsWith('eslint:')) continue;
+        if (name.startsWith('plugin:')) {
+            // `plugin:react/recommended`, `plugin:@typescript-eslint/recommended`, `plugin:@scope/name/config`
+            const parts = name.slice('plugin:'.length).split('/');
+            const pluginName = parts[0].startsWith('@') && parts.length > 2 ? `${parts[0]}/${parts[1]}` : parts[0];
+            references.push(expandShortName(pluginName, 'eslint-plugin'));
+        } else {
+            references.push(expandShortName(name, 'eslint-config'));
+        }
+    }
+    for (const name of entryNames(config.plugins)) {
+        references.push(expandShortName(name, 'eslint-plugin'));
+    }
+    references.push(...entryNames(config.parser), ...entryNames(asObject(config.parserOptions).parser));
+    for (const override of Array.isArray(config.overrides) ? config.overrides : []) {
+        references.push(...eslintReferences(override));
+    }
+    return references;
+}
+
+function babelReferences(value: unknown): string[] {
+    const config = asObject(value);
+    const expand = (name: string, kind: 'preset' | 'plugin') => {
+        if (name.startsWith('module:')) return name.slice('module:'.length);
+        // Babel's own scope drops the `babel-` part: `@babel/env` → `@babel/preset-env`
+        if (name.startsWith('@babel/')) {
+            return name.startsWith(`@babel/${kind}-`) || name.split('/').length > 2 ? name : `@babel/${kind}-${name.slice('@babel/'.length)}`;
+        }
+        return expandShortName(name, `babel-${kind}`);
+    };
+    const references = [
+        ...entryNames(config.presets).map((name) => expand(name, 'preset')),
+        ...entryNames(config.plugins).map((name) => expand(name, 'plugin')),
+    ];
+    for (const nested of [...Object.values(asObject(config.env)), ...(Array.isArray(config.overrides) ? config.overrides : [])]) {
+        references.push(...babelReferences(nested));
+    }
+    return references;
+}
+
+// Environments that ship with Jest itself
+const JEST_BUILTIN_ENVIRONMENTS = ['node'];
+
+function jestReferences(value: unknown): string[] {
+    const config = asObject(value);
+    const references = [
+        ...entryNames(config.preset),
+        ...entryNames(config.testRunner),
+        ...entryNames(config.setupFiles),
+        ...entryNames(config.setupFilesAfterEnv),
+        ...entryNames(config.snapshotSerializers),
+        ...entryNames(config.watchPlugins),
+        ...entryNames(config.reporters).filter((name) => name !== 'default' && name !== 'summary'),
+        ...entryNames(Object.values(asObject(config.transform))),
+    ];
+    const environment = config.testEnvironment;
+    if (isPackageName(environment) && !JEST_BUILTIN_ENVIRONMENTS.includes(environment)) {
+        references.push(expandShortName(environment, 'jest-environment'));
+    }
+    for (const project of Array.isArray(config.projects) ? config.projects : []) {
+        references.push(...jestReferences(project));
+    }
+    return references;
+}
+
+function prettierReferences(value: unknown): string[] {
+    // A string config is a shared config package: `"prettier": "@org/prettier-config"`
+    if (typeof value === 'string') return entryNames(value);
+    const config = asObject(value);
+    const references = entryNames(config.plugins);
+    for (const override of Array.isArray(config.overrides) ? config.overrides : []) {
+        references.push(...prettierReferences(asObject(override).options));
+    }
+    return references;
+}
+
+function postcssReferences(value: unknown): string[] {
+    const config = asObject(value);
+    // `plugins: { autoprefixer: {} }` or `plugins: ['autoprefixer', ['postcss-preset-env', {}]]`
+    const plugins = Array.isArray(config.plugins) ? entryNames(config.plugins) : Object.keys(asObject(config.plugins)).filter(isPackageName);
+    return [...plugins, ...entryNames(config.parser), ...entryNames(config.syntax), ...entryNames(config.stringifier)];
+}
+
+const rcFiles = (name: string, extensions: string[]) => extensions.map((ext) => `${name}${ext}`);
+const JS_EXTENSIONS = ['.js', '.cjs', '.mjs', '.ts', '.cts', '.mts'];
+
+/** Built-in detectors for ESLint (eslintrc), Babel, Jest, Prettier and PostCSS */
+export const TOOL_CONFIG_DETECTORS: ToolConfigDetector[] = [
+    {
+        name: 'eslint',
+        // Flat configs (`eslint.config.js`) import their plugins and are scanned as source files
+        files: rcFiles('.eslintrc', ['', '.json', '.yaml', '.yml', '.js', '.cjs']),
+        packageJsonKey: 'eslintConfig',
+        detect: eslintReferences,
+    },
+    {
+        name: 'babel',
+        files: [...rcFiles('.babelrc', ['', '.json', '.js', '.cjs', '.mjs', '.cts']), ...rcFiles('babel.config', ['.json', ...JS_EXTENSIONS])],
+        packageJsonKey: 'babel',
+        detect: babelReferences,
+    },
+    {
+        name: 'jest',
+        files: rcFiles('jest.config', ['.json', ...JS_EXTENSIONS]),
+        packageJsonKey: 'jest',
+        detect: jestReferences,
+    },
+    {
+        name: 'prettier',
+        files: [
+            ...rcFiles('.prettierrc', ['', '.json', '.json5', '.yaml', '.yml', ...JS_EXTENSIONS]),
+            ...rcFiles('prettier.config', JS_EXTENSIONS),
+        ],
+        packageJsonKey: 'prettier',
+        detect: prettierReferences,
+    },
+    {
+        name: 'postcss',
+        files: [...rcFiles('.postcssrc', ['', '.json', '.yaml', '.yml', '.js', '.cjs', '.mjs']), ...rcFiles('postcss.config', JS_EXTENSIONS)],
+        packageJsonKey: 'postcss',
+        detect: postcssReferences,
+    },
+];
+
+// Naming-convention prefixes that configs usually leave out (`react` for `eslint-plugin-react`)
+const SHORT_NAME_PREFIX = /(^|\/)(?:eslint-(?:plugin|config)|babel-(?:preset|plugin)|jest-environment|preset|plugin)(?:-|$)/;
+
+/** Line of the specifier in the config, or of its short form when the config abbreviates it. */
+function lineOf(text: string, specifier: string): number {
+    let index = text.indexOf(specifier);
+    if (index === -1) {
+        const short = specifier.replace(SHORT_NAME_PREFIX, '$1').replace(/\/$/, '');
+        const escaped = short.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        index = new RegExp(`(?<=["'\\s:])${escaped}(?=["'/\\s]|$)`, 'm').exec(text)?.index ?? -1;
+    }
+    return index === -1 ? 1 : text.slice(0, index).split('\n').length;
+}
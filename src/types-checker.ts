@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import { PackageInfo } from './monorepo';
+
+/**
+ * `unpaired`: the runtime package is neither used nor declared. `redundant`: the installed runtime
+ * package ships its own types. `misplaced`: declared in dependencies of a private package.
+ */
+export type TypesProblem = 'unpaired' | 'redundant' | 'misplaced';
+
+// Types for the runtime itself rather than for an npm package
+const RUNTIME_TYPES = new Set(['@types/node', '@types/bun']);
+
+export interface TypesIssue {
+    packageName: string;
+    /** The `@types` package */
+    dependency: string;
+    /** Runtime package the types belong to */
+    runtime: string;
+    problem: TypesProblem;
+    detail: string;
+}
+
+export class TypesChecker {
+    /**
+     * Pair each declared `@types/*` package with its runtime package and report type packages
+     * that are stale, redundant or declared as production dependencies of a private package.
+     * @param usedImports Every package the workspace references (prod and dev)
+     */
+    check(pkg: PackageInfo, usedImports: Set<string>): TypesIssue[] {
+        const issues: TypesIssue[] = [];
+        const declared = { ...pkg.dependencies, ...pkg.devDependencies, ...pkg.peerDependencies, ...pkg.optionalDependencies };
+        const isPrivate = readManifest(path.join(pkg.location, 'package.json'))?.private === true;
+
+        for (const dependency of Object.keys(declared).sort()) {
+            const runtime = runtimePackage(dependency);
+            if (!runtime) continue;
+            const issue = (problem: TypesProblem, detail: string) =>
+                issues.push({ packageName: pkg.name, dependency, runtime, problem, detail });
+
+            const pairable = !RUNTIME_TYPES.has(dependency);
+            // `/// <reference types="…" />` can use the `@types` package on its own
+            if (pairable && !usedImports.has(runtime) && !declared[runtime] && !usedImports.has(dependency)) {
+                issue('unpaired', `${runtime} is not used or declared`);
+            } else if (pairable && shipsOwnTypes(runtime, pkg.location)) {
+                issue('redundant', `${runtime} ships its own types`);
+            }
+
+            if (isPrivate && pkg.dependencies[dependency] !== undefined) {
+                issue('misplaced', 'dependencies -> devDependencies');
+            }
+        }
+
+        return issues;
+    }
+}
+
+/** `@types/foo` → `foo`, `@types/scope__pkg` → `@scope/pkg`; null for anything else. */
+export function runtimePackage(typesPackage: string): string | null {
+    const match = /^@types\/(.+)$/.exec(typesPackage);
+    if (!match) return null;
+    const [scope, name] = match[1].split('__');
+    return name ? `@${scope}/${name}` : scope;
+}
+
+/** True when the installed runtime package declares `types`/`typings`, or a `types` export condition. */
+function shipsOwnTypes(runtime: string, fromDir: string): boolean {
+    let dir = fromDir;
+    while (true) {
+        const manifest = readManifest(path.join(dir, 'node_modules', runtime, 'package.json'));
+        if (manifest) {
+            const { exports } = manifest;
+            const rootExport = exports && typeof exports === 'object' && '.' in exports ? (exports as Record<string, unknown>)['.'] : exports;
+            const typesField = (value: unknown) => typeof value === 'string' && value !== '';
+            return typesField(manifest.types) || typesField(manifest.typings) || (!!rootExport && typeof rootExport === 'object' && 'types' in rootExport);
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) return false;
+        dir = parent;
+    }
+}
+
+function readManifest(manifestPath: string): Record<string, unknown> | null {
+    try {
+        const manifest: unknown = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+        return manifest && typeof manifest === 'object' && !Array.isArray(manifest) ? manifest as Record<string, unknown> : null;
+    } catch {
+        return null;
+    }
+}
@@ -89,8 +89,8 @@ export class VersionChecker {
         const results: VersionInfo[] = [];
 
         for (const [pkg, currentRange] of Object.entries(dependencies)) {
-            // Skip workspace protocols and file paths
-            if (currentRange.startsWith('workspace:') || currentRange.startsWith('file:')) {
+            // Skip workspace protocols, file paths and unresolved catalog references
+            if (currentRange.startsWith('workspace:') || currentRange.startsWith('file:') || currentRange.startsWith('catalog:')) {
                 continue;
             }
 
@@ -116,6 +116,22 @@ export class VersionChecker {
         return results;
     }
 
+    /**
+     * Get the latest published version of a single package, using the cache when possible.
+     */
+    async getLatestVersion(pkg: string): Promise<string | null> {
+        const cached = this.cache.get(pkg);
+        if (cached) {
+            return cached;
+        }
+
+        const latest = await this.fetchLatestVersion(pkg);
+        if (latest) {
+            this.cache.set(pkg, latest);
+        }
+        return latest;
+    }
+
     /**
      * Clear the version cache
      */
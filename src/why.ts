@@ -0,0 +1,140 @@
+import path from 'path';
+import { DependencyField, MonorepoManager, PackageInfo } from './monorepo';
+import { Analyzer, ImportUsage } from './analyzer';
+import { ConfigLoader } from './config';
+import { PluginLoader, configDetectors } from './plugins';
+import { DependencyGraph } from './graph';
+import { toReportPath } from './report';
+import { resolveWorkspaceSettings } from './workspace-settings';
+
+const DECLARATION_FIELDS: DependencyField[] = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+export interface WhyOptions {
+    /** Monorepo root; defaults to the current working directory */
+    root?: string;
+    /** Classify files by reachability from entry points; defaults to the `entryPoints` config of each workspace */
+    entryPoints?: boolean;
+}
+
+export interface WhyReference {
+    /** Relative to the root */
+    file: string;
+    line: number;
+    specifier: string;
+    kind: 'value' | 'type';
+    /** How `Scanner` classified the file (manifests and tool configs are always `dev`) */
+    classification: 'prod' | 'dev';
+    /** Rule behind the classification, e.g. `source file`, `test file`, `"build" script` or `eslint config` */
+    rule: string;
+}
+
+export interface WhyWorkspace {
+    name: string;
+    /** Workspace directory relative to the root (`.` for the root package) */
+    path: string;
+    declared: { field: DependencyField; range: string }[];
+    references: WhyReference[];
+    /**
+     * Chains of internal workspace packages, starting with this one, through which it reaches
+     * a workspace that declares or references the dependency
+     */
+    via: string[][];
+}
+
+export interface WhyResult {
+    root: string;
+    dependency: string;
+    /** Problems found while discovering workspaces (duplicate names, unparsable manifests) */
+    warnings: string[];
+    /** Workspaces that declare or reference the dependency, directly or through internal packages */
+    workspaces: WhyWorkspace[];
+}
+
+/**
+ * Explain where a dependency is declared and used across the monorepo, running the same
+ * scan and parse pipeline as `check`. Workspaces listed in `skipPackages` only report their declarations.
+ */
+export async function why(dependency: string, options: WhyOptions = {}): Promise<WhyResult> {
+    const rootDir = path.resolve(options.root ?? '.');
+    const config = await new ConfigLoader().load(rootDir);
+    const monorepo = new MonorepoManager(rootDir);
+    const packages = await monorepo.getPackages();
+    const plugins = await new PluginLoader().load(rootDir, config.plugins);
+    const analyzer = new Analyzer(packages, configDetectors(plugins));
+
+    const usages = new Map<string, ImportUsage[]>();
+    const prodImports = new Map<string, Set<string>>();
+    const devImports = new Map<string, Set<string>>();
+    for (const pkg of packages) {
+        if (config.skipPackages && config.skipPackages.includes(pkg.name)) {
+            continue;
+        }
+        const settings = resolveWorkspaceSettings(rootDir, config, pkg, packages);
+        const result = await analyzer.analyze(pkg, { ...settings, entryPoints: options.entryPoints ?? settings.entryPoints });
+        usages.set(pkg.name, result.usages.get(dependency) ?? []);
+        prodImports.set(pkg.name, result.prodImports);
+        devImports.set(pkg.name, result.devImports);
+    }
+
+    const isDirect = (pkg: PackageInfo) => declarations(pkg, dependency).length > 0 || (usages.get(pkg.name) ?? []).length > 0;
+    const direct = new Set(packages.filter(isDirect).map((pkg) => pkg.name));
+    const dependencyGraph = DependencyGraph.build(packages, prodImports, devImports);
+
+    const workspaces: WhyWorkspace[] = [];
+    for (const pkg of [...packages].sort((a, b) => a.name.localeCompare(b.name))) {
+        const via = internalPaths(dependencyGraph, pkg.name, direct, dependency);
+        if (!direct.has(pkg.name) && via.length === 0) continue;
+        workspaces.push({
+            name: pkg.name,
+            path: toReportPath(rootDir, pkg.location) || '.',
+            declared: declarations(pkg, dependency),
+            references: (usages.get(pkg.name) ?? []).map((usage) => ({
+                file: toReportPath(rootDir, usage.file),
+                line: usage.line,
+                specifier: usage.specifier,
+                kind: usage.isTypeOnly ? 'type' : 'value',
+                classification: usage.isDev ? 'dev' : 'prod',
+                rule: usage.fileReason,
+            })),
+            via,
+        });
+    }
+
+    return { root: rootDir, dependency, warnings: monorepo.warnings, workspaces };
+}
+
+function declarations(pkg: PackageInfo, dependency: string): WhyWorkspace['declared'] {
+    return DECLARATION_FIELDS
+        .filter((field) => pkg[field][dependency] !== undefined)
+        .map((field) => ({ field, range: pkg[field][dependency] }));
+}
+
+/**
+ * Shortest chain from `start` to each other workspace in `targets`, following declared and imported
+ * workspace edges. The dependency itself is never an intermediate step when it is a workspace package.
+ */
+function internalPaths(dependencyGraph: DependencyGraph, start: string, targets: Set<string>, dependency: string): string[][] {
+    const previous = new Map<string, string>();
+    const queue = [start];
+    const visited = new Set([start, dependency]);
+    const paths: string[][] = [];
+
+    while (queue.length > 0) {
+        const node = queue.shift()!;
+        for (const edge of dependencyGraph.edges.filter((candidate) => candidate.from === node)) {
+            if (visited.has(edge.to)) continue;
+            visited.add(edge.to);
+            previous.set(edge.to, node);
+            queue.push(edge.to);
+            if (targets.has(edge.to)) {
+                const chain = [edge.to];
+                for (let current = node; current !== start; current = previous.get(current)!) {
+                    chain.unshift(current);
+                }
+                paths.push([start, ...chain]);
+            }
+        }
+    }
+
+    return paths.sort((a, b) => a.length - b.length || a.join().localeCompare(b.join()));
+}
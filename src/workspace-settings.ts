@@ -0,0 +1,53 @@
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { DepcheckConfig, WorkspaceConfig } from './config';
+import { PackageInfo, nestedPackagePatterns } from './monorepo';
+import { FileRules } from './scanner';
+
+/** Settings for one workspace: top-level config plus every matching `workspaces` override. */
+export interface WorkspaceSettings {
+    /** Includes the directories of nested workspaces */
+    ignorePatterns: string[];
+    ignoreDependencies: string[];
+    files: FileRules;
+    checkOutdated: boolean;
+    entryPoints: boolean;
+}
+
+/** True when a `workspaces` key is the package name or a glob matching its path relative to the root. */
+export function matchesWorkspace(rootDir: string, key: string, pkg: PackageInfo): boolean {
+    if (key === pkg.name) return true;
+    const relativeLocation = path.relative(rootDir, pkg.location).split(path.sep).join('/') || '.';
+    return minimatch(relativeLocation, key.replace(/\/$/, ''));
+}
+
+/**
+ * Resolve the settings of a workspace. Overrides are applied in config order: lists are appended
+ * to the top-level ones, and toggles set by a later matching entry win.
+ */
+export function resolveWorkspaceSettings(
+    rootDir: string,
+    config: DepcheckConfig,
+    pkg: PackageInfo,
+    packages: PackageInfo[]
+): WorkspaceSettings {
+    const overrides: WorkspaceConfig[] = Object.entries(config.workspaces || {})
+        .filter(([key]) => matchesWorkspace(rootDir, key, pkg))
+        .map(([, workspace]) => workspace);
+    const list = (key: 'ignorePatterns' | 'ignoreDependencies' | 'devFiles' | 'prodFiles'): string[] =>
+        [config, ...overrides].flatMap((entry) => entry[key] || []);
+    const toggle = (key: 'defaultDevFiles' | 'checkOutdated' | 'entryPoints', fallback: boolean): boolean =>
+        [config, ...overrides].reduce((value, entry) => typeof entry[key] === 'boolean' ? entry[key]! : value, fallback);
+
+    return {
+        ignorePatterns: [...nestedPackagePatterns(pkg, packages), ...list('ignorePatterns')],
+        ignoreDependencies: list('ignoreDependencies'),
+        files: {
+            devFiles: list('devFiles'),
+            prodFiles: list('prodFiles'),
+            defaultDevFiles: toggle('defaultDevFiles', true),
+        },
+        checkOutdated: toggle('checkOutdated', true),
+        entryPoints: toggle('entryPoints', false),
+    };
+}
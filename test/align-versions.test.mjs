@@ -0,0 +1,94 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'align-versions');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-align-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+function readManifest(tmpDir, name) {
+  return JSON.parse(fs.readFileSync(path.join(tmpDir, 'packages', name, 'package.json'), 'utf8'));
+}
+
+test('align uses the highest range and leaves peerDependencies alone', () => {
+  const tmpDir = setupFixture();
+  const result = spawnSync('node', [cliPath, tmpDir, '--compact', '--no-outdated', '--align'], { encoding: 'utf8' });
+
+  // react stays mismatched because @fixture/c declares a different peer range
+  assert.equal(result.status, 1, result.stdout);
+  assert.match(result.stdout, /^\[monodep\] scanned=4 issues=1$/m);
+  assert.match(result.stdout, /\[aligned\] lodash: \^4\.17\.21 \(2 manifests\)/);
+  assert.match(result.stdout, /\[aligned\] react: \^18\.2\.0 \(1 manifest, peerDependencies left unchanged\)/);
+
+  assert.equal(readManifest(tmpDir, 'b').dependencies.react, '^18.2.0');
+  assert.equal(readManifest(tmpDir, 'c').dependencies.lodash, '^4.17.21');
+  assert.equal(readManifest(tmpDir, 'c').peerDependencies.react, '^17.0.0 || ^18.0.0');
+  assert.equal(JSON.parse(fs.readFileSync(path.join(tmpDir, 'package.json'), 'utf8')).devDependencies.lodash, '^4.17.21');
+});
+
+test('align --align-peers rewrites peer ranges and clears all mismatches', () => {
+  const tmpDir = setupFixture();
+  const result = spawnSync('node', [cliPath, tmpDir, '--compact', '--no-outdated', '--align', '--align-peers'], { encoding: 'utf8' });
+
+  assert.equal(result.status, 0, result.stdout);
+  assert.equal(readManifest(tmpDir, 'c').peerDependencies.react, '^18.2.0');
+});
+
+test('align root skips dependencies the root does not declare', () => {
+  const tmpDir = setupFixture();
+  const result = spawnSync('node', [cliPath, tmpDir, '--compact', '--no-outdated', '--align', 'root'], { encoding: 'utf8' });
+
+  assert.match(result.stdout, /\[aligned\] lodash: \^4\.17\.20 \(3 manifests\)/);
+  assert.match(result.stdout, /\[align-skipped\] react \(not declared in the root package\.json\)/);
+  assert.equal(readManifest(tmpDir, 'a').dependencies.lodash, '^4.17.20');
+  assert.equal(readManifest(tmpDir, 'b').dependencies.react, '^17.0.2');
+});
+
+test('pinned ranges from config win over the strategy', () => {
+  const tmpDir = setupFixture();
+  fs.writeFileSync(
+    path.join(tmpDir, '.monodeprc.json'),
+    JSON.stringify({ alignment: { strategy: 'most-common', pinned: { react: '^18.3.1' } } })
+  );
+  const result = spawnSync('node', [cliPath, tmpDir, '--compact', '--no-outdated', '--align', '--dry-run'], { encoding: 'utf8' });
+
+  assert.match(result.stdout, /\[align-dry-run\] react: \^18\.3\.1 \(3 manifests, peerDependencies left unchanged\)/);
+  assert.match(result.stdout, /\[align-dry-run\] lodash: \^4\.17\.21/);
+  assert.equal(readManifest(tmpDir, 'a').dependencies.react, '^18.2.0');
+});
+
+test('unknown align strategy exits with code 2', () => {
+  const tmpDir = setupFixture();
+  const result = spawnSync('node', [cliPath, tmpDir, '--no-outdated', '--align', 'newest'], { encoding: 'utf8' });
+
+  assert.equal(result.status, 2);
+  assert.match(result.stderr, /Unknown align strategy "newest"/);
+});
+
+test('align leaves skipped and unselected packages alone and keeps their mismatches', () => {
+  const skipDir = setupFixture();
+  fs.writeFileSync(path.join(skipDir, '.monodeprc.json'), JSON.stringify({ skipPackages: ['@fixture/c'] }));
+  const skipped = spawnSync('node', [cliPath, skipDir, '--compact', '--no-outdated', '--align', '--align-peers'], { encoding: 'utf8' });
+
+  assert.equal(skipped.status, 1, skipped.stdout);
+  assert.match(skipped.stdout, /\[aligned\] lodash: \^4\.17\.21 \(1 manifest, not checked: @fixture\/c\)/);
+  assert.match(skipped.stdout, /\[mismatch\] \*: lodash/);
+  assert.equal(readManifest(skipDir, 'c').dependencies.lodash, '^4.0.0');
+
+  const filterDir = setupFixture();
+  const filtered = spawnSync('node', [cliPath, filterDir, '--compact', '--no-outdated', '--align', '--filter', '@fixture/a'], { encoding: 'utf8' });
+
+  assert.equal(filtered.status, 1, filtered.stdout);
+  assert.match(filtered.stdout, /\[aligned\] lodash: \^4\.17\.21 \(0 manifests, not checked: @fixture\/c,align-versions-fixture\)/);
+  assert.equal(readManifest(filterDir, 'c').dependencies.lodash, '^4.0.0');
+});
@@ -0,0 +1,69 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'align-versions');
+const { check, graph } = await import(path.join(repoRoot, 'dist', 'index.js'));
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-api-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+test('check returns issues, stats and packages without printing or exiting', async (t) => {
+  const tmpDir = setupFixture();
+  const log = t.mock.method(console, 'log');
+
+  const result = await check({ root: tmpDir, outdated: false });
+
+  assert.equal(log.mock.callCount(), 0);
+  assert.equal(result.root, tmpDir);
+  assert.equal(result.packages.length, 4);
+  assert.equal(result.stats.packagesScanned, 4);
+  assert.equal(result.stats.mismatchCount, 2);
+  assert.equal(result.totalIssues, 2);
+  assert.deepEqual(result.issues.map((issue) => `${issue.type}:${issue.dependency}`).sort(), ['mismatch:lodash', 'mismatch:react']);
+  assert.equal(result.config.checkOutdated, false);
+  assert.deepEqual(result.fixes, []);
+});
+
+test('check applies alignment and counts resolved mismatches as fixed', async () => {
+  const tmpDir = setupFixture();
+
+  const result = await check({ root: tmpDir, outdated: false, align: 'highest', alignPeers: true });
+
+  assert.equal(result.totalIssues, 0);
+  assert.equal(result.alignment.applied, true);
+  assert.ok(result.fixes.length > 0);
+});
+
+test('check rejects invalid options instead of exiting', async () => {
+  await assert.rejects(check({ root: setupFixture(), outdated: false, align: 'newest' }), /Unknown align strategy "newest"/);
+  await assert.rejects(check({ root: setupFixture(), outdated: false, baseline: 'missing.json' }), /Failed to read baseline/);
+});
+
+test('check rejects an unparsable config without printing', async (t) => {
+  const tmpDir = setupFixture();
+  fs.writeFileSync(path.join(tmpDir, '.monodeprc.json'), '{ "rules": ');
+  const warn = t.mock.method(console, 'warn');
+
+  await assert.rejects(check({ root: tmpDir, outdated: false }), /Failed to load config/);
+  assert.equal(warn.mock.callCount(), 0);
+});
+
+test('graph returns workspace nodes and, on request, external dependencies', async () => {
+  const tmpDir = setupFixture();
+
+  const internal = await graph({ root: tmpDir });
+  assert.deepEqual(internal.nodes.map((node) => node.name), ['@fixture/a', '@fixture/b', '@fixture/c', 'align-versions-fixture']);
+  assert.deepEqual(internal.edges, []);
+
+  const external = await graph({ root: tmpDir, external: true, focus: '@fixture/c' });
+  assert.deepEqual(external.edges.map((edge) => `${edge.to}:${edge.kind}`), ['lodash:prod', 'react:peer']);
+  await assert.rejects(graph({ root: tmpDir, direction: 'sideways' }), /Unknown direction "sideways"/);
+});
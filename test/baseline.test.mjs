@@ -0,0 +1,95 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'baseline');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-baseline-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+function run(tmpDir, ...args) {
+  return spawnSync('node', [cliPath, tmpDir, '--compact', '--no-outdated', ...args], { encoding: 'utf8' });
+}
+
+test('write-baseline records current issues and exits successfully', () => {
+  const tmpDir = setupFixture();
+  const baselinePath = path.join(tmpDir, 'monodep-baseline.json');
+  const result = run(tmpDir, '--write-baseline', baselinePath);
+
+  assert.equal(result.status, 0, result.stderr);
+  const baseline = JSON.parse(fs.readFileSync(baselinePath, 'utf8'));
+  assert.deepEqual(baseline, {
+    version: 1,
+    issues: [
+      { package: 'baseline-fixture', type: 'missing', dependency: 'chalk' },
+      { package: 'baseline-fixture', type: 'unused', dependency: 'lodash' },
+    ],
+  });
+});
+
+test('baseline suppresses known issues and fails only on new ones', () => {
+  const tmpDir = setupFixture();
+  const baselinePath = path.join(tmpDir, 'monodep-baseline.json');
+  run(tmpDir, '--write-baseline', baselinePath);
+
+  const clean = run(tmpDir, '--baseline', baselinePath);
+  assert.equal(clean.status, 0, clean.stdout);
+  assert.match(clean.stdout, /issues=0 baselined=2/);
+
+  fs.appendFileSync(path.join(tmpDir, 'src', 'index.js'), "import yaml from 'js-yaml';\n", 'utf8');
+  const regressed = run(tmpDir, '--baseline', baselinePath);
+  assert.equal(regressed.status, 1);
+  assert.match(regressed.stdout, /issues=1 baselined=2/);
+  assert.match(regressed.stdout, /\[missing\] baseline-fixture: js-yaml/);
+  assert.doesNotMatch(regressed.stdout, /\[missing\] baseline-fixture: chalk/);
+});
+
+test('baseline reports entries that no longer reproduce', () => {
+  const tmpDir = setupFixture();
+  const baselinePath = path.join(tmpDir, 'monodep-baseline.json');
+  run(tmpDir, '--write-baseline', baselinePath);
+
+  const manifestPath = path.join(tmpDir, 'package.json');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  delete manifest.dependencies.lodash;
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf8');
+
+  const result = run(tmpDir, '--baseline', baselinePath);
+  assert.equal(result.status, 0, result.stdout);
+  assert.match(result.stdout, /\[baseline-stale\] baseline-fixture: lodash \(unused\)/);
+});
+
+test('entries whose check did not run are not stale', () => {
+  const tmpDir = setupFixture();
+  const baselinePath = path.join(tmpDir, 'monodep-baseline.json');
+  run(tmpDir, '--write-baseline', baselinePath);
+
+  // --only-extras leaves unused/missing to Knip
+  const extras = run(tmpDir, '--only-extras', '--baseline', baselinePath);
+  assert.equal(extras.status, 0, extras.stdout);
+  assert.doesNotMatch(extras.stdout, /baseline-stale/);
+
+  fs.writeFileSync(path.join(tmpDir, '.monodeprc.json'), JSON.stringify({ rules: { unused: 'off' } }), 'utf8');
+  const ruleOff = run(tmpDir, '--baseline', baselinePath);
+  assert.doesNotMatch(ruleOff.stdout, /baseline-stale/);
+
+  fs.writeFileSync(path.join(tmpDir, '.monodeprc.json'), JSON.stringify({ skipPackages: ['baseline-fixture'] }), 'utf8');
+  const skipped = run(tmpDir, '--baseline', baselinePath);
+  assert.doesNotMatch(skipped.stdout, /baseline-stale/);
+});
+
+test('unreadable baseline is an error', () => {
+  const tmpDir = setupFixture();
+  const result = run(tmpDir, '--baseline', path.join(tmpDir, 'does-not-exist.json'));
+  assert.equal(result.status, 2);
+  assert.match(result.stderr, /Failed to read baseline/);
+});
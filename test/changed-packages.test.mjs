@@ -0,0 +1,125 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'changed-packages');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function git(tmpDir, ...args) {
+  const result = spawnSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: tmpDir, encoding: 'utf8' });
+  assert.equal(result.status, 0, result.stderr);
+  return result.stdout;
+}
+
+// Fixture committed on "main" with a "feature" branch checked out
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-since-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  git(tmpDir, 'init', '-q', '-b', 'main');
+  git(tmpDir, 'add', '-A');
+  git(tmpDir, 'commit', '-q', '-m', 'initial');
+  git(tmpDir, 'checkout', '-q', '-b', 'feature');
+  return tmpDir;
+}
+
+function run(tmpDir, ...args) {
+  return spawnSync('node', [cliPath, tmpDir, '--no-outdated', '--format', 'json', ...args], { encoding: 'utf8' });
+}
+
+test('--since checks changed packages and their dependents', () => {
+  const tmpDir = setupFixture();
+  fs.appendFileSync(path.join(tmpDir, 'packages', 'core', 'src', 'index.js'), 'export const version = 2;\n');
+  git(tmpDir, 'commit', '-q', '-am', 'change core');
+
+  const report = JSON.parse(run(tmpDir, '--since', 'main').stdout);
+
+  assert.deepEqual(report.selection, ['@fixture/app', '@fixture/core', '@fixture/ui']);
+  assert.equal(report.stats.packagesScanned, 3);
+  // docs is not checked, but the mismatch with it is still found
+  assert.equal(report.issues.some((issue) => issue.package === '@fixture/docs'), false);
+  assert.ok(report.issues.some((issue) => issue.type === 'mismatch' && issue.dependency === 'lodash'));
+});
+
+test('--since includes uncommitted and untracked files', () => {
+  const tmpDir = setupFixture();
+  fs.writeFileSync(path.join(tmpDir, 'packages', 'docs', 'src', 'extra.js'), "import padLeft from 'left-pad';\n");
+
+  const report = JSON.parse(run(tmpDir, '--since', 'main').stdout);
+
+  assert.deepEqual(report.selection, ['@fixture/docs']);
+  assert.equal(report.issues.some((issue) => issue.type === 'unused'), false);
+});
+
+test('--since with no changes checks no packages', () => {
+  const report = JSON.parse(run(setupFixture(), '--since', 'main').stdout);
+
+  assert.deepEqual(report.selection, []);
+  assert.equal(report.stats.packagesScanned, 0);
+});
+
+test('--filter selects packages by name or path glob', () => {
+  const tmpDir = setupFixture();
+
+  const byName = JSON.parse(run(tmpDir, '--filter', '@fixture/docs').stdout);
+  assert.deepEqual(byName.selection, ['@fixture/docs']);
+  assert.ok(byName.issues.some((issue) => issue.type === 'unused' && issue.dependency === 'left-pad'));
+
+  const byGlob = JSON.parse(run(tmpDir, '--filter', 'packages/{app,ui}', '--filter', '@fixture/c*').stdout);
+  assert.deepEqual(byGlob.selection, ['@fixture/app', '@fixture/core', '@fixture/ui']);
+});
+
+test('--filter narrows the --since selection', () => {
+  const tmpDir = setupFixture();
+  fs.appendFileSync(path.join(tmpDir, 'packages', 'core', 'src', 'index.js'), 'export const version = 2;\n');
+
+  const report = JSON.parse(run(tmpDir, '--since', 'main', '--filter', 'packages/app').stdout);
+
+  assert.deepEqual(report.selection, ['@fixture/app']);
+});
+
+test('an unknown ref fails with exit code 2', () => {
+  const result = run(setupFixture(), '--since', 'no-such-branch');
+
+  assert.equal(result.status, 2);
+  assert.match(result.stderr, /Failed to list changes since "no-such-branch"/);
+});
+
+test('text output lists only the selected packages', () => {
+  const tmpDir = setupFixture();
+  const result = spawnSync('node', [cliPath, tmpDir, '--no-outdated', '--filter', '@fixture/docs'], { encoding: 'utf8' });
+
+  assert.match(result.stdout, /📁 @fixture\/docs/);
+  assert.doesNotMatch(result.stdout, /📁 @fixture\/(app|core|ui)/);
+  assert.doesNotMatch(result.stdout, /changed-packages-root/);
+});
+
+test('baseline entries of unselected packages are kept and never stale', () => {
+  const tmpDir = setupFixture();
+  const baselinePath = path.join(tmpDir, 'monodep-baseline.json');
+  run(tmpDir, '--write-baseline', baselinePath);
+  const full = JSON.parse(fs.readFileSync(baselinePath, 'utf8'));
+  assert.ok(full.issues.some((entry) => entry.package === '@fixture/docs'));
+
+  const filtered = JSON.parse(run(tmpDir, '--filter', '@fixture/app', '--baseline', baselinePath).stdout);
+  assert.deepEqual(filtered.baseline.stale, []);
+
+  run(tmpDir, '--filter', '@fixture/app', '--write-baseline', baselinePath);
+  assert.deepEqual(JSON.parse(fs.readFileSync(baselinePath, 'utf8')), full);
+});
+
+test('cycles closed by imports of unselected packages are still found', () => {
+  const tmpDir = setupFixture();
+  // core does not declare app, so only its imports close app -> ui -> core -> app
+  fs.appendFileSync(path.join(tmpDir, 'packages', 'core', 'src', 'index.js'), "import '@fixture/app';\n");
+
+  const report = JSON.parse(run(tmpDir, '--filter', '@fixture/app').stdout);
+
+  assert.equal(report.stats.packagesScanned, 1);
+  assert.ok(report.issues.some((issue) => issue.type === 'cycle'), JSON.stringify(report.issues));
+  assert.equal(report.issues.some((issue) => issue.type === 'missing'), false);
+});
@@ -0,0 +1,51 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'dynamic-patterns');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture(policy) {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-dynamic-patterns-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  fs.writeFileSync(path.join(tmpDir, '.monodeprc.json'), JSON.stringify({ dynamicImportPolicy: policy }));
+  return tmpDir;
+}
+
+function run(tmpDir, format) {
+  return spawnSync('node', [cliPath, tmpDir, '--format', format, '--no-outdated'], { encoding: 'utf8' });
+}
+
+test('dependencies matching a dynamic import pattern are not unused', () => {
+  const result = run(setupFixture('off'), 'json');
+
+  assert.equal(result.status, 0, result.stderr);
+  assert.deepEqual(JSON.parse(result.stdout).issues, []);
+});
+
+test('dynamic candidates list the dependencies they could load', () => {
+  const report = JSON.parse(run(setupFixture('warn'), 'json').stdout);
+
+  assert.deepEqual(
+    report.issues.map((issue) => [issue.type, issue.dependency, issue.candidates]),
+    [
+      ['dynamic', '`@org/plugin-${name}`', ['@org/plugin-alpha', '@org/plugin-beta']],
+      ['dynamic', "'lodash/' + fn", ['lodash']],
+      ['dynamic', '`@acme/theme-${theme}/index.js`', []],
+      ['dynamic', '`./locales/${locale}.js`', undefined],
+    ]
+  );
+});
+
+test('compact output flags patterns that match no declared package', () => {
+  const result = run(setupFixture('warn'), 'compact');
+
+  assert.match(result.stdout, /\[dynamic\] loader: `@org\/plugin-\$\{name\}` \(src\/index\.js:2, could load @org\/plugin-alpha, @org\/plugin-beta\)/);
+  assert.match(result.stdout, /\[dynamic\] loader: `@acme\/theme-\$\{theme\}\/index\.js` \(src\/index\.js:10, matches no declared package\)/);
+  assert.match(result.stdout, /\[dynamic\] loader: `\.\/locales\/\$\{locale\}\.js` \(src\/index\.js:14\)/);
+});
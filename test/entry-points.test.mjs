@@ -0,0 +1,68 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'entry-points');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-entry-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+function runJson(tmpDir, ...args) {
+  const result = spawnSync('node', [cliPath, tmpDir, '--format', 'json', '--no-outdated', ...args], { encoding: 'utf8' });
+  return JSON.parse(result.stdout);
+}
+
+const wrongTypes = (report) => report.issues
+  .filter((issue) => issue.type === 'wrongType')
+  .map(({ package: pkg, dependency, expected }) => ({ package: pkg, dependency, expected }));
+
+test('without entry points, benchmarks and scripts count as prod code', () => {
+  const report = runJson(setupFixture());
+
+  assert.equal(report.config.entryPoints, false);
+  assert.deepEqual(wrongTypes(report), [
+    { package: '@fixture/lib', dependency: 'tinybench', expected: 'dependencies' },
+  ]);
+});
+
+test('--entry-points counts only files reachable from main, exports and bin as prod', () => {
+  const report = runJson(setupFixture(), '--entry-points', '--evidence', 'all');
+
+  assert.equal(report.config.entryPoints, true);
+  assert.deepEqual(wrongTypes(report), [
+    { package: '@fixture/lib', dependency: 'chalk', expected: 'devDependencies' },
+  ]);
+  const chalk = report.issues.find((issue) => issue.dependency === 'chalk');
+  assert.deepEqual(chalk.evidence.map((item) => `${item.file}:${item.line} (${item.reason})`), [
+    'packages/lib/scripts/release.ts:1 (not reachable from entry points)',
+  ]);
+  // lodash is reached through `./util.js`, commander through the bin entry
+  assert.ok(!report.issues.some((issue) => issue.dependency === 'lodash' || issue.dependency === 'commander'));
+});
+
+test('the entryPoints config applies to why and keeps packages without entry points on file name rules', () => {
+  const tmpDir = setupFixture();
+  fs.writeFileSync(path.join(tmpDir, '.monodeprc.json'), JSON.stringify({ entryPoints: true }));
+
+  const result = spawnSync('node', [cliPath, 'why', 'lodash', tmpDir, '--format', 'json'], { encoding: 'utf8' });
+  assert.equal(result.status, 0, result.stderr);
+  const [lib] = JSON.parse(result.stdout).workspaces;
+  assert.deepEqual(lib.references.map((reference) => `${reference.classification}: ${reference.rule}`), [
+    'prod: reachable from src/index.ts',
+  ]);
+
+  const react = spawnSync('node', [cliPath, 'why', 'react', tmpDir, '--format', 'json'], { encoding: 'utf8' });
+  const [app] = JSON.parse(react.stdout).workspaces;
+  assert.deepEqual(app.references.map((reference) => `${reference.classification}: ${reference.rule}`), [
+    'prod: source file',
+  ]);
+});
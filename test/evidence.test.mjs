@@ -0,0 +1,84 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'evidence');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-evidence-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+function run(tmpDir, ...args) {
+  return spawnSync('node', [cliPath, tmpDir, '--no-outdated', ...args], { encoding: 'utf8' });
+}
+
+const byDependency = (report, dependency) => report.issues.find((issue) => issue.dependency === dependency);
+
+test('missing and wrongType issues carry the first locations that caused them', () => {
+  const report = JSON.parse(run(setupFixture(), '--format', 'json').stdout);
+
+  const lodash = byDependency(report, 'lodash');
+  assert.equal(lodash.type, 'missing');
+  assert.equal(lodash.evidenceCount, 4);
+  assert.deepEqual(lodash.evidence, [
+    { file: 'packages/app/src/format.ts', line: 1, specifier: 'lodash', kind: 'value', usage: 'prod', reason: 'source file' },
+    { file: 'packages/app/src/group.ts', line: 1, specifier: 'lodash/groupBy', kind: 'value', usage: 'prod', reason: 'source file' },
+    { file: 'packages/app/src/types.ts', line: 1, specifier: 'lodash', kind: 'type', usage: 'dev', reason: 'type-only import' },
+  ]);
+
+  // Only the prod usages explain why zod belongs in dependencies
+  const zod = byDependency(report, 'zod');
+  assert.equal(zod.type, 'wrongType');
+  assert.deepEqual(zod.evidence.map((item) => `${item.file}:${item.line}`), ['packages/app/src/schema.ts:1']);
+
+  const vitest = byDependency(report, 'vitest');
+  assert.equal(vitest.expected, 'devDependencies');
+  assert.deepEqual(vitest.evidence.map((item) => item.reason), ['test file']);
+});
+
+test('--evidence all lists every location and --evidence 0 none', () => {
+  const all = JSON.parse(run(setupFixture(), '--format', 'json', '--evidence', 'all').stdout);
+  assert.equal(byDependency(all, 'lodash').evidence.length, 4);
+  assert.equal(byDependency(all, 'lodash').evidence[3].specifier, 'lodash/debounce');
+
+  const none = JSON.parse(run(setupFixture(), '--format', 'json', '--evidence', '0').stdout);
+  assert.deepEqual(byDependency(none, 'lodash').evidence, []);
+  assert.equal(byDependency(none, 'lodash').evidenceCount, 4);
+});
+
+test('compact, text and SARIF output show the evidence', () => {
+  const tmpDir = setupFixture();
+
+  const compact = run(tmpDir, '--compact').stdout;
+  assert.match(compact, /\[missing\] app: lodash\n  at packages\/app\/src\/format\.ts:1 \(source file\)\n/);
+  assert.match(compact, /  \.\.\. 1 more\n/);
+
+  const text = run(tmpDir).stdout;
+  assert.match(text, /packages\/app\/test\/format\.test\.ts:1 \(test file\)/);
+  assert.match(text, /… 1 more location \(--evidence all\)/);
+
+  const sarif = JSON.parse(run(tmpDir, '--format', 'sarif').stdout);
+  const result = sarif.runs[0].results.find((entry) => entry.ruleId === 'wrongType' && entry.message.text.startsWith('zod'));
+  assert.deepEqual(result.relatedLocations, [
+    {
+      id: 0,
+      physicalLocation: { artifactLocation: { uri: 'packages/app/src/schema.ts', uriBaseId: '%SRCROOT%' }, region: { startLine: 1 } },
+      message: { text: 'zod (source file)' },
+    },
+  ]);
+});
+
+test('an invalid --evidence value exits with 2', () => {
+  const result = run(setupFixture(), '--evidence', 'some');
+
+  assert.equal(result.status, 2);
+  assert.match(result.stderr, /Invalid --evidence value "some"/);
+});
@@ -0,0 +1,58 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'fix-manifest');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-fix-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+const manifestB = (tmpDir) => path.join(tmpDir, 'packages', 'b', 'package.json');
+
+test('dry run lists fixes without touching manifests', () => {
+  const tmpDir = setupFixture();
+  const before = fs.readFileSync(manifestB(tmpDir), 'utf8');
+  const result = spawnSync('node', [cliPath, tmpDir, '--compact', '--no-outdated', '--dry-run'], { encoding: 'utf8' });
+
+  assert.equal(result.status, 1, result.stdout);
+  assert.match(result.stdout, /\[fix-dry-run\] @fixture\/b: remove left-pad from dependencies/);
+  assert.match(result.stdout, /\[fix-dry-run\] @fixture\/b: add lodash@\^4\.17\.21 to dependencies/);
+  assert.match(result.stdout, /\[fix-dry-run\] @fixture\/b: move vitest from dependencies to devDependencies/);
+  assert.equal(fs.readFileSync(manifestB(tmpDir), 'utf8'), before);
+});
+
+test('fix rewrites manifests preserving indentation, key order and trailing newline', () => {
+  const tmpDir = setupFixture();
+  const result = spawnSync('node', [cliPath, tmpDir, '--compact', '--no-outdated', '--fix'], { encoding: 'utf8' });
+
+  assert.equal(result.status, 0, result.stdout);
+  assert.equal(
+    fs.readFileSync(manifestB(tmpDir), 'utf8'),
+    [
+      '{',
+      '    "name": "@fixture/b",',
+      '    "version": "1.0.0",',
+      '    "dependencies": {',
+      '        "lodash": "^4.17.21"',
+      '    },',
+      '    "devDependencies": {',
+      '        "vitest": "^1.0.0"',
+      '    },',
+      '    "private": true',
+      '}',
+    ].join('\n')
+  );
+
+  const rerun = spawnSync('node', [cliPath, tmpDir, '--compact', '--no-outdated'], { encoding: 'utf8' });
+  assert.equal(rerun.status, 0, rerun.stdout);
+  assert.match(rerun.stdout, /issues=0/);
+});
@@ -0,0 +1,116 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'internal-cycles');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-graph-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+function run(tmpDir, ...args) {
+  return spawnSync('node', [cliPath, 'graph', tmpDir, ...args], { encoding: 'utf8' });
+}
+
+function graphJson(tmpDir, ...args) {
+  const result = run(tmpDir, '--format', 'json', ...args);
+  assert.equal(result.status, 0, result.stderr);
+  return JSON.parse(result.stdout);
+}
+
+test('graph prints DOT with dev edges dashed', () => {
+  const result = run(setupFixture());
+
+  assert.equal(result.status, 0);
+  assert.match(result.stdout, /^digraph monodep \{/);
+  assert.match(result.stdout, /"@fixture\/core" -> "@fixture\/utils";/);
+  assert.match(result.stdout, /"@fixture\/app" -> "@fixture\/testkit" \[style=dashed, label="dev"\];/);
+});
+
+test('graph prints a Mermaid flowchart', () => {
+  const result = run(setupFixture(), '--format', 'mermaid');
+
+  assert.equal(result.status, 0);
+  assert.match(result.stdout, /^flowchart LR/);
+  assert.match(result.stdout, /n0\["@fixture\/app"\]/);
+  assert.match(result.stdout, /n0 -\. dev \.-> n2/);
+});
+
+test('graph JSON is an adjacency list with edge kinds', () => {
+  const tmpDir = setupFixture();
+  const manifestPath = path.join(tmpDir, 'packages', 'utils', 'package.json');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  manifest.peerDependencies = { '@fixture/app': 'workspace:*' };
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+
+  const report = graphJson(tmpDir);
+
+  assert.equal(report.nodes['@fixture/utils'].path, 'packages/utils');
+  assert.deepEqual(report.nodes['@fixture/utils'].dependencies, [
+    { name: '@fixture/app', kind: 'peer', declared: true, imported: false },
+    { name: '@fixture/core', kind: 'prod', declared: true, imported: true },
+  ]);
+  assert.deepEqual(report.nodes['@fixture/app'].dependencies.map((dep) => `${dep.name}:${dep.kind}`), [
+    '@fixture/core:prod',
+    '@fixture/testkit:dev',
+  ]);
+});
+
+test('external dependencies are only included with --external', () => {
+  const tmpDir = setupFixture();
+  fs.appendFileSync(path.join(tmpDir, 'packages', 'core', 'src', 'index.js'), "import lodash from 'lodash';\n");
+
+  assert.equal(graphJson(tmpDir).nodes.lodash, undefined);
+
+  const report = graphJson(tmpDir, '--external');
+  assert.deepEqual(report.nodes.lodash, { external: true, dependencies: [] });
+  assert.deepEqual(report.nodes['@fixture/core'].dependencies.find((dep) => dep.name === 'lodash'), {
+    name: 'lodash',
+    kind: 'prod',
+    declared: false,
+    imported: true,
+  });
+});
+
+test('edge kinds can be filtered', () => {
+  const report = graphJson(setupFixture(), '--edges', 'prod');
+
+  assert.deepEqual(report.nodes['@fixture/app'].dependencies.map((dep) => dep.name), ['@fixture/core']);
+});
+
+test('focus keeps the upstream or downstream closure of a package', () => {
+  const tmpDir = setupFixture();
+
+  assert.deepEqual(Object.keys(graphJson(tmpDir, '--focus', '@fixture/utils', '--direction', 'upstream').nodes), [
+    '@fixture/core',
+    '@fixture/utils',
+  ]);
+  assert.deepEqual(Object.keys(graphJson(tmpDir, '--focus', '@fixture/app', '--direction', 'downstream', '--edges', 'prod').nodes), [
+    '@fixture/app',
+    '@fixture/testkit',
+  ]);
+  assert.deepEqual(Object.keys(graphJson(tmpDir, '--focus', '@fixture/testkit').nodes), [
+    '@fixture/app',
+    '@fixture/core',
+    '@fixture/testkit',
+    '@fixture/utils',
+  ]);
+});
+
+test('invalid graph options exit with 2', () => {
+  const tmpDir = setupFixture();
+
+  assert.equal(run(tmpDir, '--format', 'png').status, 2);
+  assert.equal(run(tmpDir, '--edges', 'optional').status, 2);
+  const unknown = run(tmpDir, '--focus', '@fixture/missing');
+  assert.equal(unknown.status, 2);
+  assert.match(unknown.stderr, /Unknown package "@fixture\/missing"/);
+});
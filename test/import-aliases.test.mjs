@@ -0,0 +1,77 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'import-aliases');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-aliases-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+function run(tmpDir) {
+  return spawnSync('node', [cliPath, tmpDir, '--compact', '--no-outdated'], { encoding: 'utf8' });
+}
+
+function updateJson(file, update) {
+  const json = JSON.parse(fs.readFileSync(file, 'utf8'));
+  update(json);
+  fs.writeFileSync(file, JSON.stringify(json, null, 2));
+}
+
+test('tsconfig paths and package.json imports resolving to local files are not dependencies', () => {
+  const result = run(setupFixture());
+
+  assert.equal(result.status, 0, result.stdout);
+  assert.doesNotMatch(result.stdout, /\[missing\]/);
+  assert.doesNotMatch(result.stdout, /\[unused\]/);
+});
+
+test('aliases inherited through extends are attributed to the workspace they point into', () => {
+  const tmpDir = setupFixture();
+  updateJson(path.join(tmpDir, 'packages', 'web', 'package.json'), (manifest) => delete manifest.dependencies);
+
+  const result = run(tmpDir);
+
+  assert.match(result.stdout, /\[missing\] @fixture\/web: @fixture\/shared/);
+  assert.match(result.stdout, /\[internal\] @fixture\/web: @fixture\/shared/);
+  assert.doesNotMatch(result.stdout, /@shared\/format/);
+});
+
+test('imports entries that map to a package count as using that package', () => {
+  const tmpDir = setupFixture();
+  updateJson(path.join(tmpDir, 'packages', 'app', 'package.json'), (manifest) => delete manifest.dependencies);
+
+  const result = run(tmpDir);
+
+  assert.match(result.stdout, /\[missing\] @fixture\/app: better-sqlite3/);
+  assert.doesNotMatch(result.stdout, /#db|#internal/);
+});
+
+test('a catch-all paths entry without a matching file falls back to the package', () => {
+  const tmpDir = setupFixture();
+  updateJson(path.join(tmpDir, 'packages', 'app', 'tsconfig.json'), (tsconfig) => {
+    tsconfig.compilerOptions.paths['*'] = ['./types/*'];
+  });
+  fs.appendFileSync(path.join(tmpDir, 'packages', 'app', 'src', 'index.ts'), "import lodash from 'lodash';\n");
+
+  const result = run(tmpDir);
+
+  assert.match(result.stdout, /\[missing\] @fixture\/app: lodash/);
+  assert.doesNotMatch(result.stdout, /\[missing\] @fixture\/app: @\/components/);
+});
+
+test('baseUrl without paths resolves specifiers to local files before packages', () => {
+  const result = run(path.join(repoRoot, 'fixtures', 'base-url'));
+
+  // `utils/format` is src/utils/format.ts; `lodash` has no file under src and stays a package
+  assert.equal(result.status, 0, result.stdout);
+  assert.match(result.stdout, /^\[monodep\] scanned=2 issues=0$/m);
+});
@@ -8,7 +8,7 @@ import { spawnSync } from 'node:child_process';
 
 const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
 const fixtureSource = path.join(repoRoot, 'fixtures', 'installed-peer');
-const cliPath = path.join(repoRoot, 'dist', 'index.js');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
 
 function setupFixture() {
   const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-installed-peer-'));
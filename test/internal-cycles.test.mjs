@@ -0,0 +1,82 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'internal-cycles');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-cycles-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+function run(tmpDir, ...args) {
+  return spawnSync('node', [cliPath, tmpDir, '--no-outdated', ...args], { encoding: 'utf8' });
+}
+
+function updateManifest(tmpDir, name, update) {
+  const manifestPath = path.join(tmpDir, 'packages', name, 'package.json');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  update(manifest);
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+}
+
+test('cycles are reported with their full path and edge kind', () => {
+  const result = run(setupFixture(), '--compact');
+
+  assert.equal(result.status, 1);
+  assert.match(result.stdout, /\[cycle\] \*: @fixture\/core -> @fixture\/utils -> @fixture\/core \(prod\)/);
+  // app only reaches testkit through devDependencies and a test file
+  assert.match(result.stdout, /\[cycle\] \*: @fixture\/app -> @fixture\/testkit -> @fixture\/app \(dev-only\)/);
+});
+
+test('imports close a cycle even when the dependency is not declared', () => {
+  const tmpDir = setupFixture();
+  updateManifest(tmpDir, 'utils', (manifest) => delete manifest.dependencies);
+
+  const result = run(tmpDir, '--compact');
+
+  assert.match(result.stdout, /\[internal\] @fixture\/utils: @fixture\/core/);
+  assert.match(result.stdout, /\[cycle\] \*: @fixture\/core -> @fixture\/utils -> @fixture\/core \(prod\)/);
+});
+
+test('longer cycles list every package on the path', () => {
+  const tmpDir = setupFixture();
+  // testkit -> app becomes testkit -> core -> ... -> testkit through prod edges only
+  updateManifest(tmpDir, 'utils', (manifest) => {
+    manifest.dependencies = { '@fixture/testkit': 'workspace:*' };
+  });
+  updateManifest(tmpDir, 'testkit', (manifest) => {
+    manifest.dependencies = { '@fixture/core': 'workspace:*' };
+  });
+  fs.writeFileSync(path.join(tmpDir, 'packages', 'utils', 'src', 'index.js'), "export { mount } from '@fixture/testkit';\n");
+  fs.writeFileSync(path.join(tmpDir, 'packages', 'testkit', 'src', 'index.js'), "export { render } from '@fixture/core';\n");
+
+  const result = run(tmpDir, '--format', 'json');
+  const report = JSON.parse(result.stdout);
+  const cycles = report.issues.filter((issue) => issue.type === 'cycle');
+
+  assert.equal(cycles.length, 1);
+  assert.equal(cycles[0].dependency, '@fixture/core -> @fixture/utils -> @fixture/testkit -> @fixture/core');
+  assert.equal(cycles[0].cycle, 'prod');
+  assert.deepEqual(cycles[0].packages, ['@fixture/core', '@fixture/utils', '@fixture/testkit']);
+  assert.equal(report.stats.cycleCount, 1);
+});
+
+test('cycle severity follows the rules config', () => {
+  const tmpDir = setupFixture();
+  fs.writeFileSync(path.join(tmpDir, '.monodeprc.json'), JSON.stringify({ rules: { cycle: 'warn' } }));
+
+  const result = run(tmpDir);
+
+  assert.equal(result.status, 0);
+  assert.match(result.stdout, /Dependency Cycles Found/);
+  assert.match(result.stdout, /prod: breaks build order and publishing/);
+  assert.match(result.stdout, /Cycles:\s+2 \(warn\)/);
+});
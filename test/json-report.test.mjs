@@ -0,0 +1,67 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'dynamic-import');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture(config) {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-json-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  fs.writeFileSync(path.join(tmpDir, '.monodeprc.json'), JSON.stringify(config, null, 2), 'utf8');
+  return tmpDir;
+}
+
+test('json format emits a single versioned document', () => {
+  const tmpDir = setupFixture({ dynamicImportPolicy: 'warn', checkOutdated: false });
+  const result = spawnSync('node', [cliPath, tmpDir, '--format', 'json'], { encoding: 'utf8' });
+
+  assert.equal(result.status, 0, result.stderr);
+  const report = JSON.parse(result.stdout);
+  assert.equal(report.schemaVersion, 1);
+  assert.equal(report.tool, 'monodep');
+  assert.equal(report.totalIssues, 0);
+  assert.equal(report.stats.packagesScanned, 1);
+  assert.equal(report.stats.dynamicCount, 1);
+  assert.equal(report.config.dynamicImportPolicy, 'warn');
+  assert.equal(report.config.checkOutdated, false);
+
+  const dynamic = report.issues.find((issue) => issue.type === 'dynamic');
+  assert.ok(dynamic, result.stdout);
+  assert.equal(dynamic.package, 'dynamic-import-fixture');
+  assert.equal(dynamic.file, 'src/index.js');
+  assert.equal(dynamic.line, 10);
+});
+
+test('json format reports typed fields for wrongType issues', () => {
+  const tmpDir = setupFixture({ checkOutdated: false });
+  fs.mkdirSync(path.join(tmpDir, 'test'));
+  fs.writeFileSync(path.join(tmpDir, 'test', 'run.test.js'), "import assert from 'chai';\n", 'utf8');
+  const manifestPath = path.join(tmpDir, 'package.json');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  manifest.dependencies.chai = '^5.0.0';
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf8');
+
+  const result = spawnSync('node', [cliPath, tmpDir, '--format', 'json'], { encoding: 'utf8' });
+
+  assert.equal(result.status, 1);
+  const report = JSON.parse(result.stdout);
+  const wrongType = report.issues.find((issue) => issue.type === 'wrongType');
+  assert.deepEqual(
+    { dependency: wrongType.dependency, expected: wrongType.expected, actual: wrongType.actual },
+    { dependency: 'chai', expected: 'devDependencies', actual: 'dependencies' }
+  );
+});
+
+test('unknown format is rejected', () => {
+  const tmpDir = setupFixture({ checkOutdated: false });
+  const result = spawnSync('node', [cliPath, tmpDir, '--format', 'xml'], { encoding: 'utf8' });
+
+  assert.equal(result.status, 2);
+  assert.match(result.stderr, /Unknown format "xml"/);
+});
@@ -0,0 +1,63 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'module-references');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-module-refs-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+function runJson(tmpDir) {
+  const result = spawnSync('node', [cliPath, tmpDir, '--format', 'json', '--no-outdated'], { encoding: 'utf8' });
+  return JSON.parse(result.stdout);
+}
+
+function updateManifest(tmpDir, update) {
+  const manifestPath = path.join(tmpDir, 'packages', 'app', 'package.json');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  update(manifest);
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+}
+
+const summary = (report) => report.issues.map((issue) => `${issue.type} ${issue.package}: ${issue.dependency}`).sort();
+
+test('require.resolve, import.meta.resolve, mocks, type references and import = require count as usage', () => {
+  const report = runJson(setupFixture());
+
+  assert.deepEqual(report.issues, []);
+});
+
+test('type references and import type = require are type-only; the others are runtime', () => {
+  const tmpDir = setupFixture();
+  updateManifest(tmpDir, (manifest) => {
+    manifest.dependencies.koa = manifest.devDependencies.koa;
+    delete manifest.devDependencies.koa;
+    manifest.devDependencies.pino = manifest.dependencies.pino;
+    delete manifest.dependencies.pino;
+  });
+
+  assert.deepEqual(summary(runJson(tmpDir)), ['wrongType app: koa', 'wrongType app: pino']);
+});
+
+test('type references resolve to the package or its @types package', () => {
+  const tmpDir = setupFixture();
+  updateManifest(tmpDir, (manifest) => {
+    delete manifest.devDependencies.vite;
+    delete manifest.devDependencies['@types/node'];
+  });
+  const report = runJson(tmpDir);
+
+  assert.deepEqual(summary(report), ['missing app: @types/node', 'missing app: vite']);
+  const vite = report.issues.find((issue) => issue.dependency === 'vite');
+  assert.equal(vite.file, 'packages/app/src/vite-env.d.ts');
+  assert.equal(vite.line, 1);
+});
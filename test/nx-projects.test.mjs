@@ -0,0 +1,28 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureRoot = path.join(repoRoot, 'fixtures', 'nx-projects');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+const { check } = await import(path.join(repoRoot, 'dist', 'index.js'));
+
+test('Nx projects without a package.json are reported and scanned with the enclosing package', async () => {
+  const result = await check({ root: fixtureRoot, outdated: false });
+
+  assert.deepEqual(result.packages.map((pkg) => pkg.name), ['@fixture/ui', 'nx-projects-fixture']);
+  assert.deepEqual(result.warnings, [
+    'Nx project apps/site has no package.json; its files are checked as part of the enclosing package',
+  ]);
+  // lodash is only imported from apps/site
+  assert.deepEqual(result.issues, []);
+});
+
+test('the warning is printed with the report', () => {
+  const result = spawnSync('node', [cliPath, fixtureRoot, '--compact', '--no-outdated'], { encoding: 'utf8' });
+
+  assert.equal(result.status, 0, result.stdout);
+  assert.match(result.stdout, /\[warning\] Nx project apps\/site has no package\.json/);
+});
@@ -0,0 +1,66 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'plugins');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture(config) {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-plugins-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  if (config) {
+    fs.writeFileSync(path.join(tmpDir, '.monodeprc.json'), JSON.stringify(config, null, 2), 'utf8');
+  }
+  return tmpDir;
+}
+
+test('plugin issues are reported with the plugin severity defaults', () => {
+  const tmpDir = setupFixture();
+  const result = spawnSync('node', [cliPath, tmpDir, '--compact', '--no-outdated'], { encoding: 'utf8' });
+
+  assert.equal(result.status, 1, result.stdout);
+  assert.match(result.stdout, /^\[monodep\] scanned=3 issues=1 warnings=1$/m);
+  assert.match(result.stdout, /\[org\/no-lodash-in-browser\] @fixture\/web: lodash \(use lodash-es or native APIs\)/);
+  assert.match(result.stdout, /\[org\/require-telemetry\] @fixture\/admin: @org\/telemetry/);
+});
+
+test('plugin rules follow rules and workspace overrides', () => {
+  const tmpDir = setupFixture({
+    plugins: ['./tools/org-rules.mjs'],
+    rules: { 'org/require-telemetry': 'error' },
+    workspaces: { 'apps/web': { rules: { 'org/no-lodash-in-browser': 'off' } } },
+  });
+  const result = spawnSync('node', [cliPath, tmpDir, '--format', 'json', '--no-outdated'], { encoding: 'utf8' });
+  const report = JSON.parse(result.stdout);
+
+  assert.equal(result.status, 1);
+  assert.equal(report.stats.pluginCount, 1);
+  assert.deepEqual(report.issues.map((issue) => [issue.type, issue.package, issue.severity]), [
+    ['org/require-telemetry', '@fixture/admin', 'error'],
+  ]);
+});
+
+test('sarif output describes plugin rules', () => {
+  const tmpDir = setupFixture();
+  const result = spawnSync('node', [cliPath, tmpDir, '--format', 'sarif', '--no-outdated'], { encoding: 'utf8' });
+  const run = JSON.parse(result.stdout).runs[0];
+
+  const rule = run.tool.driver.rules.find((r) => r.id === 'org/no-lodash-in-browser');
+  assert.equal(rule.shortDescription.text, 'Browser apps must not import lodash');
+  const finding = run.results.find((r) => r.ruleId === 'org/no-lodash-in-browser');
+  assert.equal(run.tool.driver.rules[finding.ruleIndex].id, 'org/no-lodash-in-browser');
+  assert.equal(finding.level, 'error');
+});
+
+test('plugins that fail to load exit with code 2', () => {
+  const tmpDir = setupFixture({ plugins: ['./tools/missing.mjs'] });
+  const result = spawnSync('node', [cliPath, tmpDir, '--no-outdated'], { encoding: 'utf8' });
+
+  assert.equal(result.status, 2);
+  assert.match(result.stderr, /Failed to load plugin "\.\/tools\/missing\.mjs"/);
+});
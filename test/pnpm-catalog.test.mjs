@@ -0,0 +1,63 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'pnpm-catalog');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-catalog-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+function run(tmpDir, ...args) {
+  return spawnSync('node', [cliPath, tmpDir, '--compact', '--no-outdated', ...args], { encoding: 'utf8' });
+}
+
+test('catalog references are resolved before comparing versions', () => {
+  const result = run(setupFixture());
+
+  // web uses "catalog:" and ui pins the same ^18.3.1, so only the react17 catalog differs
+  assert.match(result.stdout, /\[mismatch\] \*: react \(\^17\.0\.2\(@fixture\/legacy\) vs \^18\.3\.1\(@fixture\/ui,@fixture\/web\)\)/);
+  assert.doesNotMatch(result.stdout, /\[mismatch\] \*: lodash/);
+  assert.doesNotMatch(result.stdout, /\[peer\]/);
+});
+
+test('workspaces pinning a version that has a catalog entry are reported', () => {
+  const result = run(setupFixture());
+
+  assert.equal(result.status, 1);
+  assert.match(result.stdout, /\[catalog\] @fixture\/legacy: lodash \(Uses "\^4\.17\.21" instead of "catalog:" \(\^4\.17\.21\)\)/);
+  assert.match(result.stdout, /\[catalog\] @fixture\/ui: react \(Uses "\^18\.3\.1" instead of "catalog:" \(\^18\.3\.1\)\)/);
+  // Catalog references themselves and peer ranges are never reported
+  assert.doesNotMatch(result.stdout, /\[catalog\] @fixture\/web/);
+});
+
+test('references to a missing catalog entry are reported as warnings', () => {
+  const tmpDir = setupFixture();
+  const manifestPath = path.join(tmpDir, 'packages', 'web', 'package.json');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  manifest.dependencies.react = 'catalog:react19';
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+
+  const result = run(tmpDir);
+
+  assert.match(result.stdout, /\[warning\] @fixture\/web references react@catalog:react19, but catalog "react19" has no entry for it/);
+});
+
+test('fix adds missing cataloged dependencies with the catalog protocol', () => {
+  const tmpDir = setupFixture();
+  fs.appendFileSync(path.join(tmpDir, 'packages', 'ui', 'src', 'index.js'), "import { noop } from 'lodash';\n");
+
+  const result = run(tmpDir, '--fix');
+
+  assert.match(result.stdout, /\[fixed\] @fixture\/ui: add lodash@catalog: to dependencies/);
+  const manifest = JSON.parse(fs.readFileSync(path.join(tmpDir, 'packages', 'ui', 'package.json'), 'utf8'));
+  assert.equal(manifest.dependencies.lodash, 'catalog:');
+});
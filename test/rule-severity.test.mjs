@@ -0,0 +1,86 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'rule-severity');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function runWithConfig(config) {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-rules-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(tmpDir, '.monodeprc.json'),
+    JSON.stringify({ checkOutdated: false, ...config }, null, 2),
+    'utf8'
+  );
+
+  const result = spawnSync('node', [cliPath, tmpDir, '--format', 'json'], { encoding: 'utf8' });
+  return { status: result.status, report: JSON.parse(result.stdout) };
+}
+
+function severities(report, type) {
+  return Object.fromEntries(
+    report.issues.filter((issue) => issue.type === type).map((issue) => [issue.package, issue.severity])
+  );
+}
+
+test('rules default to error and fail the run', () => {
+  const { status, report } = runWithConfig({});
+  assert.equal(status, 1);
+  assert.deepEqual(severities(report, 'unused'), { '@fixture/web': 'error', '@fixture/lib': 'error' });
+  assert.equal(report.totalIssues, 2);
+});
+
+test('warn rules are reported but do not affect the exit code', () => {
+  const { status, report } = runWithConfig({ rules: { unused: 'warn' } });
+  assert.equal(status, 0);
+  assert.equal(report.totalIssues, 0);
+  assert.equal(report.stats.warningCount, 2);
+  assert.equal(report.stats.unusedCount, 2);
+});
+
+test('off rules are not reported at all', () => {
+  const { status, report } = runWithConfig({ rules: { unused: 'off' } });
+  assert.equal(status, 0);
+  assert.equal(report.issues.length, 0);
+});
+
+test('workspace overrides match package names and path globs', () => {
+  const { status, report } = runWithConfig({
+    rules: { unused: 'off' },
+    workspaces: {
+      'apps/*': { rules: { unused: 'warn' } },
+      '@fixture/lib': { rules: { unused: 'error' } },
+    },
+  });
+  assert.equal(status, 1);
+  assert.deepEqual(severities(report, 'unused'), { '@fixture/web': 'warn', '@fixture/lib': 'error' });
+  assert.equal(report.totalIssues, 1);
+  assert.equal(report.stats.packagesWithIssues, 1);
+});
+
+test('unknown rules and invalid severities are rejected', () => {
+  const run = (config) => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-rules-'));
+    fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, '.monodeprc.json'), JSON.stringify(config), 'utf8');
+    return spawnSync('node', [cliPath, tmpDir, '--format', 'json', '--no-outdated'], { encoding: 'utf8' });
+  };
+
+  const invalidSeverity = run({ rules: { mismatch: 'warning' } });
+  assert.equal(invalidSeverity.status, 2);
+  assert.match(invalidSeverity.stderr, /Invalid severity "warning" for "mismatch" in rules; expected one of: error, warn, off/);
+
+  const unknownRule = run({ workspaces: { 'apps/*': { rules: { mismatchh: 'off' } } } });
+  assert.equal(unknownRule.status, 2);
+  assert.match(unknownRule.stderr, /Unknown rule "mismatchh" in workspaces\["apps\/\*"\]\.rules/);
+
+  const unknownPlugin = run({ rules: { 'org/require-telemetry': 'error' } });
+  assert.equal(unknownPlugin.status, 2);
+  assert.match(unknownPlugin.stderr, /Unknown rule "org\/require-telemetry" in rules/);
+});
@@ -0,0 +1,57 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'sarif-report');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function runSarif() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-sarif-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(tmpDir, '.monodeprc.json'),
+    JSON.stringify({ dynamicImportPolicy: 'warn', checkOutdated: false }, null, 2),
+    'utf8'
+  );
+
+  const result = spawnSync('node', [cliPath, tmpDir, '--format', 'sarif'], { encoding: 'utf8' });
+  return { status: result.status, stderr: result.stderr, log: JSON.parse(result.stdout) };
+}
+
+test('sarif output declares a rule for every issue category', () => {
+  const { log } = runSarif();
+  assert.equal(log.version, '2.1.0');
+  const ruleIds = log.runs[0].tool.driver.rules.map((rule) => rule.id);
+  for (const id of ['unused', 'missing', 'wrongType', 'mismatch', 'internal', 'peer', 'installed-peer', 'dynamic', 'ownership']) {
+    assert.ok(ruleIds.includes(id), id);
+  }
+});
+
+test('sarif results point at the manifest and the importing source line', () => {
+  const { status, log } = runSarif();
+  assert.equal(status, 1);
+  const results = log.runs[0].results;
+
+  const unused = results.find((r) => r.ruleId === 'unused');
+  assert.equal(unused.level, 'error');
+  assert.deepEqual(unused.locations[0].physicalLocation, {
+    artifactLocation: { uri: 'package.json', uriBaseId: '%SRCROOT%' },
+    region: { startLine: 6 },
+  });
+
+  const missing = results.find((r) => r.ruleId === 'missing');
+  assert.deepEqual(missing.locations[0].physicalLocation, {
+    artifactLocation: { uri: 'src/index.js', uriBaseId: '%SRCROOT%' },
+    region: { startLine: 2 },
+  });
+  assert.equal(missing.locations[1].physicalLocation.artifactLocation.uri, 'package.json');
+
+  const dynamic = results.find((r) => r.ruleId === 'dynamic');
+  assert.equal(dynamic.level, 'warning');
+  assert.equal(dynamic.locations[0].physicalLocation.region.startLine, 9);
+});
@@ -0,0 +1,107 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'script-binaries');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-scripts-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+// node_modules is gitignored, so installed manifests are written here
+function install(tmpDir, name, bin) {
+  const packageDir = path.join(tmpDir, 'node_modules', name);
+  fs.mkdirSync(packageDir, { recursive: true });
+  fs.writeFileSync(path.join(packageDir, 'package.json'), JSON.stringify({ name, version: '1.0.0', bin }));
+  for (const [binary, file] of Object.entries(typeof bin === 'string' ? { [name]: bin } : bin)) {
+    fs.mkdirSync(path.dirname(path.join(packageDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(packageDir, file), '#!/usr/bin/env node\n');
+    fs.mkdirSync(path.join(tmpDir, 'node_modules', '.bin'), { recursive: true });
+    fs.symlinkSync(path.join(packageDir, file), path.join(tmpDir, 'node_modules', '.bin', binary));
+  }
+}
+
+function installAll(tmpDir) {
+  install(tmpDir, 'typescript', { tsc: 'bin/tsc', tsserver: 'bin/tsserver' });
+  install(tmpDir, 'rimraf', 'dist/cli.js');
+  install(tmpDir, 'cross-env', { 'cross-env': 'src/bin/cross-env.js', 'cross-env-shell': 'src/bin/cross-env-shell.js' });
+  install(tmpDir, 'vitest', { vitest: 'vitest.mjs' });
+  install(tmpDir, 'eslint', { eslint: 'bin/eslint.js' });
+  install(tmpDir, 'fake-linter', { flint: 'bin/flint.js' });
+  install(tmpDir, 'prettier', { prettier: 'bin/prettier.cjs' });
+}
+
+function runJson(tmpDir) {
+  const result = spawnSync('node', [cliPath, tmpDir, '--format', 'json', '--no-outdated'], { encoding: 'utf8' });
+  return JSON.parse(result.stdout);
+}
+
+test('binaries run from scripts count as usage; undeclared ones are missing', () => {
+  const tmpDir = setupFixture();
+  installAll(tmpDir);
+  const report = runJson(tmpDir);
+
+  assert.deepEqual(
+    report.issues.map((issue) => `${issue.type} ${issue.package}: ${issue.dependency}`),
+    ['missing lib: prettier']
+  );
+  const missing = report.issues[0];
+  assert.equal(missing.file, 'packages/lib/package.json');
+  assert.equal(missing.line, 8);
+});
+
+test('binaries are matched by package name when nothing is installed', () => {
+  const tmpDir = setupFixture();
+  const report = runJson(tmpDir);
+
+  // `flint` cannot be traced to fake-linter without its manifest, and prettier cannot be attributed at all
+  assert.deepEqual(
+    report.issues.map((issue) => `${issue.type} ${issue.package}: ${issue.dependency}`),
+    ['unused lib: fake-linter']
+  );
+});
+
+test('script binaries keep dependencies used only by scripts in devDependencies', () => {
+  const tmpDir = setupFixture();
+  installAll(tmpDir);
+  const manifestPath = path.join(tmpDir, 'packages', 'lib', 'package.json');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  manifest.dependencies = { rimraf: manifest.devDependencies.rimraf, prettier: '^3.0.0' };
+  delete manifest.devDependencies.rimraf;
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  const report = runJson(tmpDir);
+
+  assert.deepEqual(
+    report.issues.map((issue) => `${issue.type} ${issue.package}: ${issue.dependency}`).sort(),
+    ['wrongType lib: prettier', 'wrongType lib: rimraf']
+  );
+});
+
+test('binaries from root devDependencies run only by workspace scripts count as root usage', () => {
+  const tmpDir = setupFixture();
+  installAll(tmpDir);
+  const rootManifestPath = path.join(tmpDir, 'package.json');
+  const rootManifest = JSON.parse(fs.readFileSync(rootManifestPath, 'utf8'));
+  delete rootManifest.scripts;
+  rootManifest.devDependencies.rimraf = '^5.0.0';
+  fs.writeFileSync(rootManifestPath, JSON.stringify(rootManifest, null, 2));
+  const libManifestPath = path.join(tmpDir, 'packages', 'lib', 'package.json');
+  const libManifest = JSON.parse(fs.readFileSync(libManifestPath, 'utf8'));
+  delete libManifest.devDependencies.rimraf;
+  fs.writeFileSync(libManifestPath, JSON.stringify(libManifest, null, 2));
+  const report = runJson(tmpDir);
+
+  // `rimraf dist && tsc -p tsconfig.json` in lib uses both root devDependencies
+  assert.deepEqual(
+    report.issues.map((issue) => `${issue.type} ${issue.package}: ${issue.dependency}`),
+    ['missing lib: prettier']
+  );
+});
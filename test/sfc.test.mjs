@@ -0,0 +1,59 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'sfc');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-sfc-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+function runJson(tmpDir) {
+  const result = spawnSync('node', [cliPath, tmpDir, '--format', 'json', '--no-outdated'], { encoding: 'utf8' });
+  return JSON.parse(result.stdout);
+}
+
+function removeDependency(tmpDir, workspace, dependency) {
+  const manifestPath = path.join(tmpDir, 'packages', workspace, 'package.json');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  delete manifest.dependencies[dependency];
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+}
+
+test('imports in Vue, Svelte and Astro script blocks count as usages', () => {
+  const report = runJson(setupFixture());
+
+  assert.deepEqual(report.issues, []);
+});
+
+test('missing dependencies in components are reported at their original line', () => {
+  const tmpDir = setupFixture();
+  removeDependency(tmpDir, 'vue-app', 'vue-router');
+  removeDependency(tmpDir, 'astro-site', 'canvas-confetti');
+
+  const missing = runJson(tmpDir).issues.filter((issue) => issue.type === 'missing');
+
+  assert.deepEqual(missing.map((issue) => `${issue.dependency} ${issue.file}:${issue.line}`).sort(), [
+    'canvas-confetti packages/astro-site/src/pages/index.astro:11',
+    'vue-router packages/vue-app/src/App.vue:7',
+  ]);
+});
+
+test('dynamic import candidates in components keep their line numbers', () => {
+  const tmpDir = setupFixture();
+  fs.writeFileSync(path.join(tmpDir, '.monodeprc.json'), JSON.stringify({ dynamicImportPolicy: 'warn' }));
+
+  const dynamic = runJson(tmpDir).issues.filter((issue) => issue.type === 'dynamic');
+
+  assert.equal(dynamic.length, 1);
+  assert.equal(dynamic[0].file, 'packages/svelte-app/src/Widget.svelte');
+  assert.equal(dynamic[0].line, 11);
+});
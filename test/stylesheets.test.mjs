@@ -0,0 +1,76 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'stylesheets');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-styles-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+function runJson(tmpDir) {
+  const result = spawnSync('node', [cliPath, tmpDir, '--format', 'json', '--no-outdated'], { encoding: 'utf8' });
+  return JSON.parse(result.stdout);
+}
+
+function updateManifest(tmpDir, update) {
+  const manifestPath = path.join(tmpDir, 'packages', 'ui', 'package.json');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  update(manifest);
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+}
+
+test('packages referenced from CSS, Sass and Less files are not unused', () => {
+  const report = runJson(setupFixture());
+
+  assert.deepEqual(report.issues, []);
+});
+
+test('undeclared stylesheet packages are missing; local files, partials and comments are ignored', () => {
+  const tmpDir = setupFixture();
+  updateManifest(tmpDir, (manifest) => {
+    manifest.dependencies = {};
+  });
+
+  const missing = runJson(tmpDir).issues
+    .filter((issue) => issue.type === 'missing')
+    .map((issue) => `${issue.dependency} ${issue.file}:${issue.line}`)
+    .sort();
+
+  assert.deepEqual(missing, [
+    '@fontsource/inter packages/ui/src/styles/theme.scss:8',
+    '@tailwindcss/typography packages/ui/src/styles/main.css:3',
+    'bootstrap packages/ui/src/styles/theme.scss:3',
+    'bootstrap-less packages/ui/src/styles/legacy.less:1',
+    'bulma packages/ui/src/styles/layout.sass:2',
+    'normalize.css packages/ui/src/styles/main.css:4',
+    'tailwindcss packages/ui/src/styles/main.css:2',
+  ]);
+});
+
+test('stylesheet usage is classified as prod or dev like source files', () => {
+  const tmpDir = setupFixture();
+  updateManifest(tmpDir, (manifest) => {
+    manifest.dependencies['highlight.js'] = manifest.devDependencies['highlight.js'];
+    manifest.devDependencies = { 'normalize.css': manifest.dependencies['normalize.css'] };
+    delete manifest.dependencies['normalize.css'];
+  });
+
+  const wrongType = runJson(tmpDir).issues
+    .filter((issue) => issue.type === 'wrongType')
+    .map((issue) => `${issue.dependency} ${issue.actual} -> ${issue.expected}`)
+    .sort();
+
+  assert.deepEqual(wrongType, [
+    'highlight.js dependencies -> devDependencies',
+    'normalize.css devDependencies -> dependencies',
+  ]);
+});
@@ -0,0 +1,65 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'tool-configs');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-tool-configs-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+function runJson(tmpDir) {
+  const result = spawnSync('node', [cliPath, tmpDir, '--format', 'json', '--no-outdated'], { encoding: 'utf8' });
+  return JSON.parse(result.stdout);
+}
+
+const summary = (report) => report.issues.map((issue) => `${issue.type} ${issue.package}: ${issue.dependency}`).sort();
+
+test('packages named in ESLint, Babel, Jest, Prettier and PostCSS configs are used', () => {
+  const report = runJson(setupFixture());
+
+  // eslint-plugin-jest is only referenced as `jest` in an override
+  assert.deepEqual(summary(report), ['missing web: eslint-plugin-jest']);
+  assert.equal(report.issues[0].file, 'packages/web/.eslintrc.json');
+  assert.equal(report.issues[0].line, 13);
+});
+
+test('config references count as dev usage', () => {
+  const tmpDir = setupFixture();
+  const manifestPath = path.join(tmpDir, 'packages', 'docs', 'package.json');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  manifest.dependencies = manifest.devDependencies;
+  delete manifest.devDependencies;
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  const report = runJson(tmpDir);
+
+  assert.deepEqual(summary(report), [
+    'missing web: eslint-plugin-jest',
+    'wrongType docs: @org/prettier-config',
+    'wrongType docs: eslint-config-airbnb',
+  ]);
+});
+
+test('plugins can add config detectors', () => {
+  const tmpDir = setupFixture();
+  const webDir = path.join(tmpDir, 'packages', 'web');
+  fs.writeFileSync(path.join(webDir, '.stylelintrc.json'), JSON.stringify({ extends: 'stylelint-config-standard' }));
+  const manifestPath = path.join(webDir, 'package.json');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  manifest.devDependencies['eslint-plugin-jest'] = '^28.0.0';
+  manifest.devDependencies['stylelint-config-standard'] = '^36.0.0';
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+
+  assert.deepEqual(summary(runJson(tmpDir)), ['unused web: stylelint-config-standard']);
+
+  fs.writeFileSync(path.join(tmpDir, '.monodeprc.json'), JSON.stringify({ plugins: ['./tools/stylelint.mjs'] }));
+  assert.deepEqual(summary(runJson(tmpDir)), []);
+});
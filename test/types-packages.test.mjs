@@ -0,0 +1,77 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'types-packages');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-types-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+function writeJson(file, value) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(value, null, 2));
+}
+
+function runJson(tmpDir, ...args) {
+  const result = spawnSync('node', [cliPath, tmpDir, '--format', 'json', '--no-outdated', ...args], { encoding: 'utf8' });
+  return { status: result.status, report: JSON.parse(result.stdout) };
+}
+
+const typesIssues = (report) => report.issues
+  .filter((issue) => issue.type === 'types')
+  .map(({ package: pkg, dependency, types, runtime }) => ({ package: pkg, dependency, types, runtime }));
+
+test('types reports unpaired @types packages and @types in dependencies of private packages', () => {
+  const { status, report } = runJson(setupFixture());
+
+  assert.equal(status, 1);
+  assert.deepEqual(typesIssues(report), [
+    { package: '@fixture/app', dependency: '@types/lodash', types: 'unpaired', runtime: 'lodash' },
+    { package: '@fixture/app', dependency: '@types/node', types: 'misplaced', runtime: 'node' },
+    { package: '@fixture/app', dependency: '@types/react', types: 'misplaced', runtime: 'react' },
+  ]);
+  const misplaced = report.issues.find((issue) => issue.dependency === '@types/react');
+  assert.equal(misplaced.expected, 'devDependencies');
+  assert.equal(misplaced.actual, 'dependencies');
+  assert.equal(report.stats.typesCount, 3);
+  // @types/babel__core pairs with @babel/core
+  assert.ok(!report.issues.some((issue) => issue.dependency === '@types/babel__core'));
+});
+
+test('types reports @types packages made redundant by an installed package with its own types', () => {
+  const tmpDir = setupFixture();
+  writeJson(path.join(tmpDir, 'node_modules', 'left-pad', 'package.json'), {
+    name: 'left-pad',
+    version: '1.3.0',
+    types: 'index.d.ts',
+  });
+  writeJson(path.join(tmpDir, 'node_modules', 'react', 'package.json'), { name: 'react', version: '18.2.0' });
+
+  const { report } = runJson(tmpDir);
+
+  const lib = typesIssues(report).filter((issue) => issue.package === '@fixture/lib');
+  assert.deepEqual(lib, [{ package: '@fixture/lib', dependency: '@types/left-pad', types: 'redundant', runtime: 'left-pad' }]);
+  assert.ok(!typesIssues(report).some((issue) => issue.dependency === '@types/react' && issue.types === 'redundant'));
+});
+
+test('types follows rule severity and leaves unpaired packages to Knip in --only-extras mode', () => {
+  const tmpDir = setupFixture();
+  writeJson(path.join(tmpDir, '.monodeprc.json'), { rules: { types: 'warn' } });
+
+  const warned = runJson(tmpDir);
+  assert.equal(warned.status, 0);
+  assert.equal(typesIssues(warned.report).length, 3);
+  assert.ok(warned.report.issues.filter((issue) => issue.type === 'types').every((issue) => issue.severity === 'warn'));
+
+  const extras = runJson(tmpDir, '--only-extras');
+  assert.deepEqual(typesIssues(extras.report).map((issue) => issue.types), ['misplaced', 'misplaced']);
+});
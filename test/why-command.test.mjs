@@ -0,0 +1,81 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'why');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-why-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+function run(tmpDir, ...args) {
+  return spawnSync('node', [cliPath, 'why', ...args, tmpDir], { encoding: 'utf8' });
+}
+
+function whyJson(tmpDir, dependency) {
+  const result = run(tmpDir, dependency, '--format', 'json');
+  assert.equal(result.status, 0, result.stderr);
+  return JSON.parse(result.stdout);
+}
+
+test('why lists declarations and references with their file classification', () => {
+  const report = whyJson(setupFixture(), 'lodash');
+
+  assert.equal(report.dependency, 'lodash');
+  assert.deepEqual(report.workspaces.map((workspace) => workspace.name), ['@fixture/utils', '@fixture/web']);
+
+  const [utils, web] = report.workspaces;
+  assert.deepEqual(utils.declared, [{ field: 'dependencies', range: '^4.17.21' }]);
+  assert.deepEqual(utils.references, [
+    { file: 'packages/utils/src/index.ts', line: 1, specifier: 'lodash', kind: 'value', classification: 'prod', rule: 'source file' },
+    { file: 'packages/utils/src/index.ts', line: 2, specifier: 'lodash', kind: 'type', classification: 'prod', rule: 'source file' },
+  ]);
+  assert.deepEqual(web.declared, [{ field: 'devDependencies', range: '^4.17.20' }]);
+  assert.deepEqual(web.references, [
+    { file: 'packages/web/test/render.test.ts', line: 2, specifier: 'lodash/range', kind: 'value', classification: 'dev', rule: 'test file' },
+  ]);
+});
+
+test('why reports workspaces that reach the dependency through internal packages', () => {
+  const tmpDir = setupFixture();
+  fs.rmSync(path.join(tmpDir, 'packages', 'web', 'test'), { recursive: true });
+  const manifestPath = path.join(tmpDir, 'packages', 'web', 'package.json');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  delete manifest.devDependencies;
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+
+  const web = whyJson(tmpDir, 'lodash').workspaces.find((workspace) => workspace.name === '@fixture/web');
+
+  assert.deepEqual(web.declared, []);
+  assert.deepEqual(web.references, []);
+  assert.deepEqual(web.via, [['@fixture/web', '@fixture/utils']]);
+});
+
+test('why prints a text summary and handles unknown dependencies', () => {
+  const tmpDir = setupFixture();
+  const result = run(tmpDir, 'lodash');
+
+  assert.equal(result.status, 0, result.stderr);
+  assert.match(result.stdout, /Declared in devDependencies \^4\.17\.20/);
+  assert.match(result.stdout, /packages\/web\/test\/render\.test\.ts:2 lodash\/range \(value, dev: test file\)/);
+  assert.match(result.stdout, /via @fixture\/web → @fixture\/utils/);
+
+  const unknown = run(tmpDir, 'left-pad');
+  assert.equal(unknown.status, 0, unknown.stderr);
+  assert.match(unknown.stdout, /left-pad is not declared or referenced by any workspace/);
+});
+
+test('why rejects unknown formats', () => {
+  const result = run(setupFixture(), 'lodash', '--format', 'xml');
+
+  assert.equal(result.status, 2);
+  assert.match(result.stderr, /Unknown format "xml"/);
+});
@@ -0,0 +1,35 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureRoot = path.join(repoRoot, 'fixtures', 'workspace-discovery');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+const { check } = await import(path.join(repoRoot, 'dist', 'index.js'));
+
+test('workspaces are discovered from package.json, lerna.json, rush.json and Nx projects', async () => {
+  const result = await check({ root: fixtureRoot, outdated: false });
+  const locations = result.packages.map((pkg) => path.relative(fixtureRoot, pkg.location).split(path.sep).join('/'));
+
+  // apps/docs has a project.json but no package.json, so it stays part of the root
+  assert.deepEqual(locations, ['apps/web', 'libs/util', 'packages/a', 'tools/cli', '']);
+});
+
+test('negated workspace patterns exclude matching packages', async () => {
+  const result = await check({ root: fixtureRoot, outdated: false });
+
+  assert.ok(!result.packages.some((pkg) => pkg.name === '@fixture/legacy'));
+});
+
+test('duplicate package names are reported and only the first is scanned', () => {
+  const result = spawnSync('node', [cliPath, fixtureRoot, '--compact', '--no-outdated'], { encoding: 'utf8' });
+
+  assert.equal(result.status, 0, result.stdout);
+  assert.match(result.stdout, /^\[monodep\] scanned=5 issues=0$/m);
+  assert.match(
+    result.stdout,
+    /\[warning\] Duplicate package name "@fixture\/a" in packages\/a and packages\/dup; skipping packages\/dup/
+  );
+});
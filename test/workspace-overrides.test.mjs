@@ -0,0 +1,57 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawnSync } from 'node:child_process';
+
+const repoRoot = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const fixtureSource = path.join(repoRoot, 'fixtures', 'workspace-overrides');
+const cliPath = path.join(repoRoot, 'dist', 'cli.js');
+
+function setupFixture() {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'monodep-overrides-'));
+  fs.cpSync(fixtureSource, tmpDir, { recursive: true });
+  return tmpDir;
+}
+
+function runJson(tmpDir, ...args) {
+  const result = spawnSync('node', [cliPath, tmpDir, '--format', 'json', '--no-outdated', ...args], { encoding: 'utf8' });
+  return JSON.parse(result.stdout);
+}
+
+const summary = (report) => report.issues.map((issue) => `${issue.type} ${issue.package}: ${issue.dependency}`);
+
+test('workspace overrides add dev/prod file globs and ignored dependencies per package', () => {
+  const report = runJson(setupFixture(), '--evidence', 'all');
+
+  assert.deepEqual(summary(report), ['wrongType @fixture/api: zx']);
+  assert.deepEqual(report.issues[0].evidence.map((item) => item.reason), ['devFiles "scripts/**"']);
+});
+
+test('without the config the built-in file rules and global lists apply', () => {
+  const tmpDir = setupFixture();
+  fs.rmSync(path.join(tmpDir, '.monodeprc.json'));
+
+  assert.deepEqual(summary(runJson(tmpDir)), [
+    'unused @fixture/api: pino-pretty',
+    'wrongType @fixture/api: ts-morph',
+    'wrongType @fixture/cli: commander',
+  ]);
+});
+
+test('why reports the configured glob that classified each file', () => {
+  const tmpDir = setupFixture();
+  const why = (dependency) => {
+    const result = spawnSync('node', [cliPath, 'why', dependency, tmpDir, '--format', 'json'], { encoding: 'utf8' });
+    assert.equal(result.status, 0, result.stderr);
+    return JSON.parse(result.stdout).workspaces.flatMap((workspace) =>
+      workspace.references.map((reference) => `${reference.file} ${reference.classification}: ${reference.rule}`)
+    );
+  };
+
+  assert.deepEqual(why('execa'), ['packages/cli/tools/exec.ts prod: prodFiles "tools/**"']);
+  assert.deepEqual(why('ts-morph'), ['packages/api/tools/generate.ts dev: devFiles "tools/**"']);
+  assert.deepEqual(why('commander'), ['packages/cli/src/setup.ts prod: source file']);
+});